@@ -0,0 +1,80 @@
+import {Order, OrderType} from '../models/Order';
+import {OrderBook} from '../models/OrderBook';
+
+/**
+ * Measures insert, cancel and match throughput against a book holding many resting orders.
+ * Run with `npm run bench`; RESTING_ORDERS and OPERATIONS override the sizes.
+ */
+const RESTING_ORDERS = parseInt(process.env.RESTING_ORDERS || '100000', 10);
+const OPERATIONS = parseInt(process.env.OPERATIONS || '20000', 10);
+const MID_PRICE = 100000;
+const PRICE_RANGE = 5000;
+
+let nextTimestamp = 1;
+
+function createOrder(type: OrderType, price: number, amount: number = 10): Order {
+    return new Order({type, price, amount, timestamp: nextTimestamp++, clientId: `client-${nextTimestamp % 100}`});
+}
+
+/**
+ * Resting orders are spread over PRICE_RANGE levels on each side of the spread, so they never cross
+ */
+function restingPrice(type: OrderType): number {
+    const distance = 1 + Math.floor(Math.random() * PRICE_RANGE);
+    return type === OrderType.BUY ? MID_PRICE - distance : MID_PRICE + distance;
+}
+
+function measure(label: string, operations: number, run: (index: number) => void): void {
+    const start = process.hrtime.bigint();
+    for (let i = 0; i < operations; i++) {
+        run(i);
+    }
+    const elapsedMs = Number(process.hrtime.bigint() - start) / 1e6;
+    const perSecond = Math.round(operations / (elapsedMs / 1000));
+
+    console.log(`${label.padEnd(28)} ${operations.toString().padStart(8)} ops  ${elapsedMs.toFixed(1).padStart(10)} ms  ${perSecond.toString().padStart(10)} ops/s`);
+}
+
+function main(): void {
+    // Matching logs nothing on the happy path, but order validation is chatty
+    console.debug = () => undefined;
+
+    const orderBook = new OrderBook();
+    const resting: Order[] = [];
+
+    console.log(`Order book benchmark: ${RESTING_ORDERS} resting orders, ${OPERATIONS} operations per scenario\n`);
+
+    measure('insert resting orders', RESTING_ORDERS, i => {
+        const type = i % 2 === 0 ? OrderType.BUY : OrderType.SELL;
+        const order = createOrder(type, restingPrice(type));
+        orderBook.addOrder(order);
+        resting.push(order);
+    });
+
+    measure('insert at 100k depth', OPERATIONS, i => {
+        const type = i % 2 === 0 ? OrderType.BUY : OrderType.SELL;
+        const order = createOrder(type, restingPrice(type));
+        orderBook.addOrder(order);
+        resting.push(order);
+    });
+
+    measure('cancel random orders', OPERATIONS, () => {
+        // Swap-remove so picking the order does not cost more than cancelling it
+        const index = Math.floor(Math.random() * resting.length);
+        const order = resting[index];
+        resting[index] = resting[resting.length - 1];
+        resting.pop();
+        orderBook.cancelOrder(order.id);
+    });
+
+    measure('match against best level', OPERATIONS, i => {
+        const type = i % 2 === 0 ? OrderType.BUY : OrderType.SELL;
+        const price = type === OrderType.BUY ? MID_PRICE + PRICE_RANGE : MID_PRICE - PRICE_RANGE;
+        orderBook.addOrder(createOrder(type, price, 5));
+    });
+
+    const state = orderBook.getState();
+    console.log(`\nResting after run: ${state.buyOrders.length} buys, ${state.sellOrders.length} sells`);
+}
+
+main();
@@ -1,6 +1,9 @@
 import {getConfig} from './config';
 import {Order, OrderType} from './models/Order';
-import {OrderBook, OrderSubmissionResult} from './models/OrderBook';
+import {OrderSubmissionResult} from './models/OrderBook';
+import {OrderBookEventType} from './models/OrderBookEvents';
+import {MarketRegistry} from './models/MarketRegistry';
+import {formatUnits, toUnits} from './models/FixedPoint';
 import {P2PService, P2PServiceOptions} from './services/P2PService';
 import {LoggerService, LogLevel} from './services/LoggerService';
 
@@ -13,7 +16,13 @@ const logger = LoggerService.getInstance({
     minLevel: LogLevel.INFO,
 });
 
-const orderbook = new OrderBook();
+const markets = new MarketRegistry(config.markets, {
+    selfTradePrevention: config.selfTradePrevention,
+    priceBandBps: config.priceBandBps,
+    circuitBreaker: config.circuitBreaker,
+    fees: config.fees,
+    accounts: config.accounts
+});
 
 const p2pOptions: P2PServiceOptions = {
     grapeUrl: config.grapeUrl,
@@ -21,46 +30,99 @@ const p2pOptions: P2PServiceOptions = {
     port: config.nodePort,
     clientId: config.clientId,
     logDir: './logs',
+    adminClientIds: config.adminClientIds,
+    heartbeatIntervalMs: config.heartbeatIntervalMs,
+    auditIntervalMs: config.auditIntervalMs,
+    tls: config.tls,
 };
 
-const p2pService = new P2PService(p2pOptions, orderbook, false);
+const p2pService = new P2PService(p2pOptions, markets, false);
+
+// Lets servers recognise a retried submission of the same order
+let orderSequence = 0;
 
 function createRandomOrder(): Order {
+    const symbols = markets.getSymbols();
+    const symbol = symbols[Math.floor(Math.random() * symbols.length)];
+    const spec = markets.getSpec(symbol);
     const type = Math.random() > 0.5 ? OrderType.BUY : OrderType.SELL;
     const price = parseFloat((50 + Math.random() * 50).toFixed(2));
     const amount = parseFloat((1 + Math.random() * 10).toFixed(2));
 
+    // Snap to the market's tick and lot size so the order is not rejected by its trading rules
+    const snap = (units: number, step: number = 1) => Math.max(step, units - units % step);
+
     return new Order({
+        symbol,
         type,
-        price,
-        amount,
+        price: snap(toUnits(price, spec.pricePrecision), spec.tickSize),
+        amount: snap(toUnits(amount, spec.amountPrecision), spec.lotSize),
         clientId: config.clientId,
+        clientOrderId: `${config.clientId}-${++orderSequence}`,
     });
 }
 
 function displayOrderbook(): void {
-    const state = orderbook.getState();
+    markets.getSymbols().forEach(displayMarket);
+}
+
+function displayMarket(symbol: string): void {
+    const state = markets.getOrderBook(symbol).getState();
+    const {pricePrecision, amountPrecision} = markets.getSpec(symbol);
+    const price = (units: number) => formatUnits(units, pricePrecision);
+    const amount = (units: number) => formatUnits(units, amountPrecision);
 
-    logger.info('\n==== ORDERBOOK STATE ====');
+    logger.info(`\n==== ORDERBOOK STATE: ${symbol} ====`);
     logger.info('BUY ORDERS:');
     state.buyOrders.forEach(order => {
-        logger.info(`  ID: ${order.id.slice(0, 8)}, Price: $${order.price.toFixed(2)}, Amount: ${order.amount.toFixed(2)}, Client: ${order.clientId}`);
+        logger.info(`  ID: ${order.id.slice(0, 8)}, Price: $${price(order.price)}, Amount: ${amount(order.amount)}, Client: ${order.clientId}`);
     });
 
     logger.info('\nSELL ORDERS:');
     state.sellOrders.forEach(order => {
-        logger.info(`  ID: ${order.id.slice(0, 8)}, Price: $${order.price.toFixed(2)}, Amount: ${order.amount.toFixed(2)}, Client: ${order.clientId}`);
+        logger.info(`  ID: ${order.id.slice(0, 8)}, Price: $${price(order.price)}, Amount: ${amount(order.amount)}, Client: ${order.clientId}`);
     });
 
     logger.info('\nRECENT MATCHES:');
-    state.matches.slice(-5).forEach(match => {
-        logger.info(`  Amount: ${match.matchedAmount.toFixed(2)}, Price: $${match.price.toFixed(2)}, Buy: ${match.buyOrder.id.slice(0, 8)}, Sell: ${match.sellOrder.id.slice(0, 8)}`);
+    markets.getOrderBook(symbol).trades.query({limit: 5}).trades.forEach(trade => {
+        logger.info(`  Amount: ${amount(trade.amount)}, Price: $${price(trade.price)}, Buy: ${trade.buyOrderId.slice(0, 8)}, Sell: ${trade.sellOrderId.slice(0, 8)}`);
     });
     logger.info('=========================\n');
 }
 
+/**
+ * Reports fills and cancellations of this client's own orders as the books apply them
+ */
+function subscribeToOwnOrders(): void {
+    const isOwn = (order: Order) => order.clientId === config.clientId;
+
+    markets.getSymbols().forEach(symbol => {
+        const {pricePrecision, amountPrecision} = markets.getSpec(symbol);
+        const events = markets.getOrderBook(symbol).events;
+        const describe = (order: Order) =>
+            `${order.id.slice(0, 8)} ${order.type} $${formatUnits(order.price, pricePrecision)}, ${formatUnits(order.amount, amountPrecision)} open`;
+
+        events.on(OrderBookEventType.ORDER_FILLED, event => {
+            if (isOwn(event.order)) {
+                logger.info(`[${symbol}] Order filled: ${describe(event.order)}`);
+            }
+        });
+        events.on(OrderBookEventType.ORDER_PARTIALLY_FILLED, event => {
+            if (isOwn(event.order)) {
+                logger.info(`[${symbol}] Order partially filled: ${describe(event.order)}`);
+            }
+        });
+        events.on(OrderBookEventType.ORDER_CANCELLED, event => {
+            if (isOwn(event.order)) {
+                logger.info(`[${symbol}] Order cancelled (${event.reason}): ${describe(event.order)}`);
+            }
+        });
+    });
+}
+
 async function main(): Promise<void> {
     logger.info(`Starting client with ID: ${config.clientId}`);
+    subscribeToOwnOrders();
 
     try {
         await p2pService.start();
@@ -72,7 +134,8 @@ async function main(): Promise<void> {
         setInterval(async () => {
             try {
                 const randomOrder = createRandomOrder();
-                logger.info(`Submitting new ${randomOrder.type} order: $${randomOrder.price.toFixed(2)} x ${randomOrder.amount.toFixed(2)}`);
+                const spec = markets.getSpec(randomOrder.symbol);
+                logger.info(`Submitting new ${randomOrder.symbol} ${randomOrder.type} order: $${formatUnits(randomOrder.price, spec.pricePrecision)} x ${formatUnits(randomOrder.amount, spec.amountPrecision)}`);
 
                 const result: OrderSubmissionResult = await p2pService.submitOrder(randomOrder);
 
@@ -88,10 +151,6 @@ async function main(): Promise<void> {
             }
         }, 5000);
 
-        setInterval(() => {
-            displayOrderbook();
-        }, 10000);
-
     } catch (err) {
         logger.error('Error starting client', err as Error);
         process.exit(1);
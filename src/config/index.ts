@@ -1,4 +1,12 @@
 import {randomUUID} from 'crypto';
+import {readFileSync} from 'fs';
+import {DEFAULT_SYMBOL, SelfTradePrevention} from '../models/Order';
+import {MarketRegistry, MarketSpec} from '../models/MarketRegistry';
+import {MarketRules} from '../models/MarketRules';
+import {MatchingAlgorithm} from '../models/MatchingPolicy';
+import {CircuitBreakerOptions} from '../models/OrderBook';
+import {FeeCurrency, FeeEngineOptions, FeeTier} from '../models/FeeEngine';
+import {TlsOptions} from '../services/P2PService';
 
 type NodeType = 'server' | 'client';
 
@@ -8,10 +16,162 @@ export interface Config {
     nodePort: number;
     clientId: string;
     serviceName: string;
+    markets: MarketSpec[];
+    /** Book-wide default; undefined allows clients to trade with themselves */
+    selfTradePrevention?: SelfTradePrevention;
+    priceBandBps?: number;
+    circuitBreaker?: CircuitBreakerOptions;
+    fees?: FeeEngineOptions;
+    /** Reserve funds for orders and reject those a client cannot pay for */
+    accounts: boolean;
+    /** Nodes allowed to deposit and withdraw funds */
+    adminClientIds: string[];
+    /** Clients: send heartbeats this often so servers cancel their orders if they go silent */
+    heartbeatIntervalMs?: number;
+    /** Servers: silence after which a client's orders are cancelled */
+    disconnectTimeoutMs?: number;
+    /** How often each order book is checked for broken invariants */
+    auditIntervalMs?: number;
+    /** Mutual TLS between nodes, needed for heartbeats */
+    tls?: TlsOptions;
 }
 
 const LOCALHOST_URL: string = 'http://127.0.0.1:30001'
 
+const MARKET_RULE_NAMES: Record<string, keyof MarketRules> = {
+    tick: 'tickSize',
+    lot: 'lotSize',
+    minAmount: 'minAmount',
+    minNotional: 'minNotional',
+    maxNotional: 'maxNotional',
+    minPrice: 'minPrice',
+    maxPrice: 'maxPrice',
+};
+
+/**
+ * Parses a market entry of the form SYMBOL[:pricePrecision:amountPrecision[:rule=units...]],
+ * e.g. BTC/USD:2:8:tick=5:lot=1000:minNotional=1000. The matching policy is chosen the same way:
+ * matching=pro_rata, minAllocation=units and topOrder=false.
+ */
+function parseMarket(entry: string): MarketSpec {
+    const [symbol, pricePrecision, amountPrecision, ...rules] = entry.split(':').map(part => part.trim());
+    const spec = MarketRegistry.defaultSpec(symbol.toUpperCase());
+
+    if (pricePrecision) {
+        spec.pricePrecision = parseInt(pricePrecision, 10);
+    }
+    if (amountPrecision) {
+        spec.amountPrecision = parseInt(amountPrecision, 10);
+    }
+
+    for (const rule of rules) {
+        const [name, value] = rule.split('=');
+        if (name === 'matching' && value !== undefined) {
+            spec.matching = value as MatchingAlgorithm;
+            continue;
+        }
+        if (name === 'minAllocation' && value !== undefined) {
+            spec.minAllocation = parseInt(value, 10);
+            continue;
+        }
+        if (name === 'topOrder' && (value === 'true' || value === 'false')) {
+            spec.topOrderPriority = value === 'true';
+            continue;
+        }
+
+        const field = MARKET_RULE_NAMES[name];
+        if (!field || value === undefined) {
+            throw new Error(`Invalid market rule for ${spec.symbol}: ${rule}`);
+        }
+        spec[field] = parseInt(value, 10);
+    }
+
+    return spec;
+}
+
+/**
+ * Every node has to run the same mode, otherwise their books diverge on the first self-trade.
+ * Unset or 'none' allows self-trades, as the order book does without a mode.
+ */
+function parseSelfTradePrevention(value: string | undefined): SelfTradePrevention | undefined {
+    if (!value || value === 'none') {
+        return undefined;
+    }
+    if (!Object.values(SelfTradePrevention).includes(value as SelfTradePrevention)) {
+        throw new Error(`Invalid SELF_TRADE_PREVENTION: ${value}`);
+    }
+    return value as SelfTradePrevention;
+}
+
+function parsePriceBand(value: string | undefined): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const bps = Number(value);
+    if (!Number.isSafeInteger(bps) || bps <= 0) {
+        throw new Error(`Invalid PRICE_BAND_BPS: ${value}`);
+    }
+    return bps;
+}
+
+/**
+ * Parses thresholdBps:windowMs:haltMs, e.g. 500:60000:300000 halts for five minutes when prices
+ * spread 5% within a minute
+ */
+function parseCircuitBreaker(value: string | undefined): CircuitBreakerOptions | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const [thresholdBps, windowMs, haltMs] = value.split(':').map(part => Number(part.trim()));
+    if (![thresholdBps, windowMs, haltMs].every(part => Number.isSafeInteger(part) && part > 0)) {
+        throw new Error(`Invalid CIRCUIT_BREAKER: ${value}`);
+    }
+    return {thresholdBps, windowMs, haltMs};
+}
+
+/**
+ * Parses comma separated minVolume:makerBps:takerBps tiers, e.g. 0:10:20,100000:-2:15, and the
+ * currency fees are taken in (quote by default)
+ */
+function parseFees(tiers: string | undefined, currency: string | undefined): FeeEngineOptions | undefined {
+    if (!tiers) {
+        return undefined;
+    }
+
+    const parsed = tiers.split(',').map((tier): FeeTier => {
+        const [minVolume, makerBps, takerBps] = tier.split(':').map(part => Number(part.trim()));
+        return {minVolume, makerBps, takerBps};
+    });
+    if (currency && !Object.values(FeeCurrency).includes(currency as FeeCurrency)) {
+        throw new Error(`Invalid FEE_CURRENCY: ${currency}`);
+    }
+    return {tiers: parsed, currency: currency ? currency as FeeCurrency : undefined};
+}
+
+function parseInterval(name: string, value: string | undefined): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const ms = Number(value);
+    if (!Number.isSafeInteger(ms) || ms <= 0) {
+        throw new Error(`Invalid ${name}: ${value}`);
+    }
+    return ms;
+}
+
+/**
+ * Reads the PEM files of a node's key, its certificate and the CA that signs every node's certificate
+ */
+function parseTls(keyPath: string | undefined, certPath: string | undefined, caPath: string | undefined): TlsOptions | undefined {
+    if (!keyPath && !certPath && !caPath) {
+        return undefined;
+    }
+    if (!keyPath || !certPath || !caPath) {
+        throw new Error('Invalid TLS settings: TLS_KEY, TLS_CERT and TLS_CA must be set together');
+    }
+    return {key: readFileSync(keyPath), cert: readFileSync(certPath), ca: readFileSync(caPath)};
+}
+
 export function getConfig(): Config {
     const nodeType = (process.env.NODE_TYPE as NodeType) || 'client';
     const grapeUrl = process.env.GRAPE_URL || LOCALHOST_URL;
@@ -21,11 +181,42 @@ export function getConfig(): Config {
 
     const serviceName = 'exchange_service';
 
+    const markets = (process.env.MARKETS || DEFAULT_SYMBOL)
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(entry => entry.length > 0)
+        .map(parseMarket);
+
+    const selfTradePrevention = parseSelfTradePrevention(process.env.SELF_TRADE_PREVENTION);
+    const priceBandBps = parsePriceBand(process.env.PRICE_BAND_BPS);
+    const circuitBreaker = parseCircuitBreaker(process.env.CIRCUIT_BREAKER);
+    const fees = parseFees(process.env.FEE_TIERS, process.env.FEE_CURRENCY);
+    const accounts = process.env.ACCOUNTS === 'true';
+    const adminClientIds = (process.env.ADMIN_CLIENT_IDS || '')
+        .split(',')
+        .map(id => id.trim())
+        .filter(id => id.length > 0);
+    const heartbeatIntervalMs = parseInterval('HEARTBEAT_INTERVAL_MS', process.env.HEARTBEAT_INTERVAL_MS);
+    const disconnectTimeoutMs = parseInterval('DISCONNECT_TIMEOUT_MS', process.env.DISCONNECT_TIMEOUT_MS);
+    const auditIntervalMs = parseInterval('AUDIT_INTERVAL_MS', process.env.AUDIT_INTERVAL_MS);
+    const tls = parseTls(process.env.TLS_KEY, process.env.TLS_CERT, process.env.TLS_CA);
+
     return {
         nodeType,
         grapeUrl,
         nodePort,
         clientId,
-        serviceName
+        serviceName,
+        markets,
+        selfTradePrevention,
+        priceBandBps,
+        circuitBreaker,
+        fees,
+        accounts,
+        adminClientIds,
+        heartbeatIntervalMs,
+        disconnectTimeoutMs,
+        auditIntervalMs,
+        tls
     };
 }
\ No newline at end of file
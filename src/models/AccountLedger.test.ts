@@ -0,0 +1,72 @@
+import {AccountLedger} from './AccountLedger';
+
+describe('AccountLedger', () => {
+    let ledger: AccountLedger;
+
+    beforeEach(() => {
+        ledger = new AccountLedger();
+        ledger.deposit('trader', 'USD', 1000);
+    });
+
+    it('should move reserved funds out of the available balance', () => {
+        ledger.reserve('order-1', 'trader', 'USD', 400);
+
+        expect(ledger.getBalance('trader', 'USD')).toEqual({available: 600, reserved: 400});
+        expect(() => ledger.reserve('order-2', 'trader', 'USD', 601))
+            .toThrow(expect.objectContaining({code: 'INSUFFICIENT_BALANCE'}));
+        expect(() => ledger.reserve('order-1', 'trader', 'USD', 1))
+            .toThrow(expect.objectContaining({code: 'DUPLICATE_RESERVATION'}));
+    });
+
+    it('should release what is left of a reservation once', () => {
+        ledger.reserve('order-1', 'trader', 'USD', 400);
+        ledger.consume('order-1', 'trader', 'USD', 150);
+
+        expect(ledger.release('order-1')).toBe(250);
+        expect(ledger.release('order-1')).toBe(0);
+        expect(ledger.getBalance('trader', 'USD')).toEqual({available: 850, reserved: 0});
+    });
+
+    it('should take payments beyond the reservation from the available balance', () => {
+        ledger.reserve('order-1', 'trader', 'USD', 100);
+
+        ledger.consume('order-1', 'trader', 'USD', 101);
+
+        expect(ledger.getBalance('trader', 'USD')).toEqual({available: 899, reserved: 0});
+    });
+
+    it('should resize a reservation within the available balance', () => {
+        ledger.reserve('order-1', 'trader', 'USD', 400);
+
+        ledger.resize('order-1', 100);
+        expect(ledger.getBalance('trader', 'USD')).toEqual({available: 900, reserved: 100});
+
+        expect(() => ledger.resize('order-1', 1001)).toThrow(expect.objectContaining({code: 'INSUFFICIENT_BALANCE'}));
+        expect(ledger.getReservation('order-1')?.amount).toBe(100);
+    });
+
+    it('should only withdraw available funds', () => {
+        ledger.reserve('order-1', 'trader', 'USD', 400);
+
+        expect(() => ledger.withdraw('trader', 'USD', 700)).toThrow(expect.objectContaining({code: 'INSUFFICIENT_BALANCE'}));
+        expect(ledger.withdraw('trader', 'USD', 600)).toEqual({available: 0, reserved: 400});
+        expect(() => ledger.deposit('trader', 'USD', 0)).toThrow(expect.objectContaining({code: 'INVALID_AMOUNT'}));
+    });
+
+    it('should restore balances and reservations from its state', () => {
+        ledger.reserve('order-1', 'trader', 'USD', 400);
+        ledger.credit('trader', 'BTC', 5);
+        const other = new AccountLedger();
+
+        const state = JSON.parse(JSON.stringify(ledger.getState()));
+        expect(AccountLedger.isValidState(state)).toBe(true);
+        other.setState(state);
+
+        expect(other.getBalances('trader')).toEqual({
+            USD: {available: 600, reserved: 400},
+            BTC: {available: 5, reserved: 0}
+        });
+        expect(other.release('order-1')).toBe(400);
+        expect(AccountLedger.isValidState({balances: [{clientId: 'trader'}], reservations: []})).toBe(false);
+    });
+});
@@ -0,0 +1,224 @@
+/** Account that collects fees and pays rebates */
+export const FEE_ACCOUNT_ID = 'fees';
+
+export class AccountLedgerError extends Error {
+    constructor(message: string, public readonly code: string) {
+        super(message);
+        this.name = 'AccountLedgerError';
+    }
+}
+
+export interface Balance {
+    available: number;
+    /** Held for open orders */
+    reserved: number;
+}
+
+/**
+ * Funds held for one open order
+ */
+export interface Reservation {
+    orderId: string;
+    clientId: string;
+    asset: string;
+    amount: number;
+}
+
+export interface AccountLedgerState {
+    balances: Array<Balance & {clientId: string; asset: string}>;
+    reservations: Reservation[];
+}
+
+/**
+ * Available and reserved balances per client and asset, in integer units. Funds move from available
+ * to reserved when an order is accepted, are paid out of the reservation as the order trades, and
+ * whatever is left returns to available once the order is filled or cancelled.
+ */
+export class AccountLedger {
+    /** Balances by client, then by asset */
+    private readonly balances = new Map<string, Map<string, Balance>>();
+    private readonly reservations = new Map<string, Reservation>();
+
+    public deposit(clientId: string, asset: string, amount: number): Balance {
+        this.validateTransfer(clientId, asset, amount);
+        this.getOrCreate(clientId, asset).available += amount;
+        return this.getBalance(clientId, asset);
+    }
+
+    public withdraw(clientId: string, asset: string, amount: number): Balance {
+        this.validateTransfer(clientId, asset, amount);
+
+        const balance = this.getOrCreate(clientId, asset);
+        if (balance.available < amount) {
+            throw new AccountLedgerError(
+                `Insufficient ${asset} balance for ${clientId}: ${balance.available} available, ${amount} requested`,
+                'INSUFFICIENT_BALANCE'
+            );
+        }
+
+        balance.available -= amount;
+        return this.getBalance(clientId, asset);
+    }
+
+    public getBalance(clientId: string, asset: string): Balance {
+        const balance = this.balances.get(clientId)?.get(asset);
+        return {available: balance?.available ?? 0, reserved: balance?.reserved ?? 0};
+    }
+
+    public getBalances(clientId: string): Record<string, Balance> {
+        const balances: Record<string, Balance> = {};
+        this.balances.get(clientId)?.forEach((balance, asset) => {
+            balances[asset] = {...balance};
+        });
+        return balances;
+    }
+
+    public getReservation(orderId: string): Reservation | undefined {
+        const reservation = this.reservations.get(orderId);
+        return reservation && {...reservation};
+    }
+
+    public reserve(orderId: string, clientId: string, asset: string, amount: number): void {
+        if (this.reservations.has(orderId)) {
+            throw new AccountLedgerError(`Funds are already reserved for order ${orderId}`, 'DUPLICATE_RESERVATION');
+        }
+
+        this.hold(clientId, asset, amount);
+        this.reservations.set(orderId, {orderId, clientId, asset, amount});
+    }
+
+    /**
+     * Grows or shrinks an order's reservation, as when the order is amended
+     */
+    public resize(orderId: string, amount: number): void {
+        const reservation = this.reservations.get(orderId);
+        if (!reservation) {
+            throw new AccountLedgerError(`No funds are reserved for order ${orderId}`, 'RESERVATION_NOT_FOUND');
+        }
+
+        const change = amount - reservation.amount;
+        if (change > 0) {
+            this.hold(reservation.clientId, reservation.asset, change);
+        } else {
+            const balance = this.getOrCreate(reservation.clientId, reservation.asset);
+            balance.reserved += change;
+            balance.available -= change;
+        }
+        reservation.amount = amount;
+    }
+
+    /**
+     * Returns what is left of an order's reservation to its available balance
+     */
+    public release(orderId: string): number {
+        const reservation = this.reservations.get(orderId);
+        if (!reservation) {
+            return 0;
+        }
+
+        const balance = this.getOrCreate(reservation.clientId, reservation.asset);
+        balance.reserved -= reservation.amount;
+        balance.available += reservation.amount;
+        this.reservations.delete(orderId);
+        return reservation.amount;
+    }
+
+    /**
+     * Pays for a trade out of an order's reservation. Fees rounded up trade by trade can come to a
+     * unit or so more than was reserved; the difference is taken from the available balance.
+     */
+    public consume(orderId: string, clientId: string, asset: string, amount: number): void {
+        const reservation = this.reservations.get(orderId);
+        const fromReservation = reservation ? Math.min(reservation.amount, amount) : 0;
+        const balance = this.getOrCreate(clientId, asset);
+
+        if (reservation) {
+            reservation.amount -= fromReservation;
+        }
+        balance.reserved -= fromReservation;
+        balance.available -= amount - fromReservation;
+    }
+
+    /**
+     * Adds trade proceeds, fees or rebates to an available balance; a negative amount debits it
+     */
+    public credit(clientId: string, asset: string, amount: number): void {
+        if (amount !== 0) {
+            this.getOrCreate(clientId, asset).available += amount;
+        }
+    }
+
+    public getState(): AccountLedgerState {
+        const balances: AccountLedgerState['balances'] = [];
+        this.balances.forEach((assets, clientId) => {
+            assets.forEach((balance, asset) => balances.push({clientId, asset, ...balance}));
+        });
+
+        return {balances, reservations: [...this.reservations.values()].map(reservation => ({...reservation}))};
+    }
+
+    public setState(state: AccountLedgerState): void {
+        this.balances.clear();
+        this.reservations.clear();
+
+        state.balances.forEach(({clientId, asset, available, reserved}) => {
+            Object.assign(this.getOrCreate(clientId, asset), {available, reserved});
+        });
+        state.reservations.forEach(reservation => this.reservations.set(reservation.orderId, {...reservation}));
+    }
+
+    public static isValidState(state: unknown): state is AccountLedgerState {
+        if (!state || typeof state !== 'object') {
+            return false;
+        }
+
+        const {balances, reservations} = state as Record<string, unknown>;
+        const isEntry = (entry: unknown, fields: string[], amounts: string[]) => {
+            const record = entry as Record<string, unknown>;
+            return !!entry && typeof entry === 'object' &&
+                fields.every(field => typeof record[field] === 'string') &&
+                amounts.every(field => Number.isSafeInteger(record[field]));
+        };
+
+        return Array.isArray(balances) && Array.isArray(reservations) &&
+            balances.every(entry => isEntry(entry, ['clientId', 'asset'], ['available', 'reserved'])) &&
+            reservations.every(entry => isEntry(entry, ['orderId', 'clientId', 'asset'], ['amount']));
+    }
+
+    private hold(clientId: string, asset: string, amount: number): void {
+        const balance = this.getOrCreate(clientId, asset);
+        if (balance.available < amount) {
+            throw new AccountLedgerError(
+                `Insufficient ${asset} balance for ${clientId}: ${balance.available} available, ${amount} required`,
+                'INSUFFICIENT_BALANCE'
+            );
+        }
+
+        balance.available -= amount;
+        balance.reserved += amount;
+    }
+
+    private validateTransfer(clientId: string, asset: string, amount: number): void {
+        if (!clientId || !asset) {
+            throw new AccountLedgerError('Client ID and asset are required', 'INVALID_ACCOUNT');
+        }
+        if (!Number.isSafeInteger(amount) || amount <= 0) {
+            throw new AccountLedgerError(`Invalid amount: ${amount}`, 'INVALID_AMOUNT');
+        }
+    }
+
+    private getOrCreate(clientId: string, asset: string): Balance {
+        let assets = this.balances.get(clientId);
+        if (!assets) {
+            assets = new Map();
+            this.balances.set(clientId, assets);
+        }
+
+        let balance = assets.get(asset);
+        if (!balance) {
+            balance = {available: 0, reserved: 0};
+            assets.set(asset, balance);
+        }
+        return balance;
+    }
+}
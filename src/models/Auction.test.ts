@@ -0,0 +1,71 @@
+import {Order, OrderType} from './Order';
+import {OrderBookSide} from './OrderBookSide';
+import {findUncrossingPrice} from './Auction';
+
+describe('findUncrossingPrice', () => {
+    let bids: OrderBookSide;
+    let asks: OrderBookSide;
+
+    const bid = (price: number, amount: number) => bids.add(new Order({type: OrderType.BUY, price, amount, clientId: 'buyer'}));
+    const ask = (price: number, amount: number) => asks.add(new Order({type: OrderType.SELL, price, amount, clientId: 'seller'}));
+    const uncross = (referencePrice?: number) => findUncrossingPrice(bids.getLevels(), asks.getLevels(), referencePrice);
+
+    beforeEach(() => {
+        bids = new OrderBookSide(OrderType.BUY);
+        asks = new OrderBookSide(OrderType.SELL);
+    });
+
+    it('should report no price when the book does not cross', () => {
+        bid(99, 10);
+        ask(100, 10);
+
+        expect(uncross()).toEqual({volume: 0, imbalance: 0});
+    });
+
+    it('should pick the price that executes the most volume', () => {
+        bid(103, 5);
+        bid(102, 5);
+        bid(100, 10);
+        ask(99, 4);
+        ask(101, 6);
+        ask(102, 10);
+
+        expect(uncross()).toEqual({price: 101, volume: 10, imbalance: 0});
+    });
+
+    it('should prefer the smallest imbalance when volumes tie', () => {
+        bid(102, 10);
+        ask(100, 6);
+        ask(101, 4);
+        bid(101, 2);
+
+        // 10 executes at 101 and 102; at 101 the imbalance is 12 - 10 = 2, at 102 it is 10 - 10 = 0
+        expect(uncross()).toEqual({price: 102, volume: 10, imbalance: 0});
+    });
+
+    it('should follow the pressure of the remaining imbalance', () => {
+        bid(105, 10);
+        bid(101, 1);
+        ask(100, 5);
+        ask(102, 1);
+
+        // 6 executes at 102 and 105 alike with buy pressure left over, so the higher price wins
+        expect(uncross()).toEqual({price: 105, volume: 6, imbalance: 4});
+
+        bids.clear();
+        asks.clear();
+        bid(100, 5);
+        ask(95, 10);
+
+        expect(uncross()).toEqual({price: 95, volume: 5, imbalance: -5});
+    });
+
+    it('should settle remaining ties at the price closest to the reference price', () => {
+        bid(105, 10);
+        ask(100, 10);
+
+        expect(uncross(104).price).toBe(105);
+        expect(uncross(101).price).toBe(100);
+        expect(uncross().price).toBe(100);
+    });
+});
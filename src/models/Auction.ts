@@ -0,0 +1,79 @@
+import type {PriceLevel} from './OrderBookSide';
+
+export enum TradingPhase {
+    CONTINUOUS = 'continuous',
+    /** Orders are collected without matching until the book is uncrossed */
+    AUCTION = 'auction',
+    /** No new orders and no matching; cancellations still go through */
+    HALTED = 'halted',
+}
+
+/**
+ * Outcome of uncrossing the book as it stands. Amounts are full order amounts: iceberg reserves
+ * take part in an auction.
+ */
+export interface AuctionIndication {
+    /** Undefined when no buy and sell prices cross */
+    price?: number;
+    volume: number;
+    /** Buy minus sell interest at the price that is left unexecuted; positive means buy pressure */
+    imbalance: number;
+}
+
+/**
+ * Finds the single price that uncrosses the book. Among the limit prices on the book it picks the one
+ * that executes the most volume, then the smallest imbalance, then the highest price when every
+ * remaining candidate has buy pressure or the lowest when all have sell pressure, and finally the one
+ * closest to the reference price (the lower one on a tie, or the lowest without a reference).
+ *
+ * Bids are expected best (highest) first and asks best (lowest) first, as an OrderBookSide keeps them.
+ */
+export function findUncrossingPrice(
+    bids: readonly PriceLevel[],
+    asks: readonly PriceLevel[],
+    referencePrice?: number,
+): AuctionIndication {
+    if (bids.length === 0 || asks.length === 0 || bids[0].price < asks[0].price) {
+        return {volume: 0, imbalance: 0};
+    }
+
+    const levelAmount = (level: PriceLevel) => level.orders.reduce((sum, order) => sum + order.amount, 0);
+    const prices = [...new Set([...bids, ...asks].map(level => level.price))]
+        .filter(price => price >= asks[0].price && price <= bids[0].price)
+        .sort((a, b) => a - b);
+
+    // Demand at a price is every bid at or above it; supply is every ask at or below it
+    const bidsAscending = [...bids].reverse();
+    let demand = bids.reduce((sum, level) => sum + levelAmount(level), 0);
+    let supply = 0;
+    let bidIndex = 0;
+    let askIndex = 0;
+
+    const candidates = prices.map(price => {
+        while (bidIndex < bidsAscending.length && bidsAscending[bidIndex].price < price) {
+            demand -= levelAmount(bidsAscending[bidIndex++]);
+        }
+        while (askIndex < asks.length && asks[askIndex].price <= price) {
+            supply += levelAmount(asks[askIndex++]);
+        }
+        return {price, volume: Math.min(demand, supply), imbalance: demand - supply};
+    });
+
+    const keepBest = <T>(items: T[], score: (item: T) => number): T[] => {
+        const best = items.reduce((max, item) => Math.max(max, score(item)), -Infinity);
+        return items.filter(item => score(item) === best);
+    };
+
+    let remaining = keepBest(candidates, candidate => candidate.volume);
+    remaining = keepBest(remaining, candidate => -Math.abs(candidate.imbalance));
+
+    if (remaining.every(candidate => candidate.imbalance > 0)) {
+        remaining = [remaining[remaining.length - 1]];
+    } else if (remaining.every(candidate => candidate.imbalance < 0)) {
+        remaining = [remaining[0]];
+    } else if (referencePrice !== undefined) {
+        remaining = keepBest(remaining, candidate => -Math.abs(candidate.price - referencePrice));
+    }
+
+    return remaining[0];
+}
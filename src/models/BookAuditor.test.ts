@@ -0,0 +1,82 @@
+import {Order, OrderKind, OrderType} from './Order';
+import {AuditCheck, AuditedBook, auditBook} from './BookAuditor';
+
+describe('auditBook', () => {
+    const buy = (id: string, price: number, timestamp = 1000) =>
+        new Order({id, type: OrderType.BUY, price, amount: 5, clientId: 'buyer', timestamp});
+    const sell = (id: string, price: number, timestamp = 1000) =>
+        new Order({id, type: OrderType.SELL, price, amount: 5, clientId: 'seller', timestamp});
+
+    const createBook = (book: Partial<AuditedBook>): AuditedBook => ({
+        bids: [],
+        asks: [],
+        stopOrders: [],
+        matching: true,
+        matchedAmounts: new Map(),
+        ...book
+    });
+
+    const checks = (book: Partial<AuditedBook>) => auditBook(createBook(book)).map(violation => violation.check);
+
+    it('should pass a sound book', () => {
+        expect(checks({
+            bids: [{price: 100, orders: [buy('b1', 100), buy('b2', 100, 1001)]}, {price: 99, orders: [buy('b3', 99)]}],
+            asks: [{price: 101, orders: [sell('s1', 101)]}]
+        })).toEqual([]);
+    });
+
+    it('should report a crossed book only while matching', () => {
+        const book = {bids: [{price: 101, orders: [buy('b1', 101)]}], asks: [{price: 101, orders: [sell('s1', 101)]}]};
+
+        expect(checks(book)).toEqual([AuditCheck.CROSSED_BOOK]);
+        expect(checks({...book, matching: false})).toEqual([]);
+    });
+
+    it('should report orders resting twice or after they were cancelled', () => {
+        const cancelled = sell('s2', 102);
+        cancelled.cancel();
+        const order = buy('b1', 100);
+
+        const violations = auditBook(createBook({
+            bids: [{price: 100, orders: [order]}],
+            asks: [{price: 102, orders: [cancelled]}],
+            stopOrders: [order]
+        }));
+
+        expect(violations).toEqual(expect.arrayContaining([
+            expect.objectContaining({check: AuditCheck.INACTIVE_ORDER, orderId: 's2'}),
+            expect.objectContaining({check: AuditCheck.DUPLICATE_ORDER, orderId: 'b1'}),
+            expect.objectContaining({check: AuditCheck.WRONG_SIDE, orderId: 'b1'})
+        ]));
+    });
+
+    it('should report levels and queues out of order', () => {
+        expect(checks({
+            bids: [{price: 99, orders: [buy('b1', 99)]}, {price: 100, orders: [buy('b2', 100)]}]
+        })).toEqual([AuditCheck.SORT_ORDER]);
+        expect(checks({
+            asks: [{price: 101, orders: [sell('s2', 101, 1001), sell('s1', 101)]}]
+        })).toEqual([AuditCheck.SORT_ORDER]);
+        expect(checks({
+            asks: [{price: 101, orders: [sell('s1', 102)]}]
+        })).toEqual([AuditCheck.SORT_ORDER]);
+    });
+
+    it('should report orders on the wrong side', () => {
+        const stop = new Order({
+            id: 'stop', type: OrderType.SELL, kind: OrderKind.STOP, amount: 5, stopPrice: 95, clientId: 'seller', timestamp: 1000
+        });
+
+        expect(checks({bids: [{price: 101, orders: [sell('s1', 101)]}]})).toEqual([AuditCheck.WRONG_SIDE]);
+        expect(checks({stopOrders: [stop]})).toEqual([]);
+    });
+
+    it('should report orders that traded more than they were filled', () => {
+        const order = buy('b1', 100);
+        order.updateAfterMatch(2);
+
+        expect(checks({bids: [{price: 100, orders: [order]}], matchedAmounts: new Map([['b1', 2]])})).toEqual([]);
+        expect(checks({bids: [{price: 100, orders: [order]}], matchedAmounts: new Map([['b1', 3]])}))
+            .toEqual([AuditCheck.FILL_MISMATCH]);
+    });
+});
@@ -0,0 +1,119 @@
+import {Order, OrderType} from './Order';
+import type {PriceLevel} from './OrderBookSide';
+
+export enum AuditCheck {
+    CROSSED_BOOK = 'crossed_book',
+    DUPLICATE_ORDER = 'duplicate_order',
+    INACTIVE_ORDER = 'inactive_order',
+    WRONG_SIDE = 'wrong_side',
+    SORT_ORDER = 'sort_order',
+    FILL_MISMATCH = 'fill_mismatch',
+}
+
+export interface AuditViolation {
+    check: AuditCheck;
+    message: string;
+    orderId?: string;
+}
+
+export interface AuditReport {
+    symbol: string;
+    /** Event sequence of the book when it was audited */
+    sequence: number;
+    violations: AuditViolation[];
+}
+
+/**
+ * What the auditor looks at: the book's own levels, not copies, so misfiled orders show up
+ */
+export interface AuditedBook {
+    bids: readonly PriceLevel[];
+    asks: readonly PriceLevel[];
+    stopOrders: readonly Order[];
+    /** Crossed prices are expected while matching is suspended */
+    matching: boolean;
+    /** Lots traded per order according to this node's trade history */
+    matchedAmounts: ReadonlyMap<string, number>;
+}
+
+/**
+ * Checks the invariants an order book must hold between operations. The trade history only covers
+ * trades executed on this node and is bounded, so it can show that an order traded more than its
+ * amounts say, but not less.
+ */
+export function auditBook(book: AuditedBook): AuditViolation[] {
+    const violations: AuditViolation[] = [];
+    const report = (check: AuditCheck, message: string, orderId?: string) => violations.push({check, message, orderId});
+
+    const seen = new Set<string>();
+    const checkOrder = (order: Order, where: string) => {
+        if (seen.has(order.id)) {
+            report(AuditCheck.DUPLICATE_ORDER, `Order ${order.id} is on the book more than once (${where})`, order.id);
+        }
+        seen.add(order.id);
+
+        if (!order.isActive()) {
+            report(AuditCheck.INACTIVE_ORDER, `Order ${order.id} is ${order.status} but still on the book`, order.id);
+        }
+
+        const filled = order.originalAmount - order.amount;
+        if (order.amount <= 0 || filled < 0 || order.visibleAmount > order.amount) {
+            report(
+                AuditCheck.FILL_MISMATCH,
+                `Order ${order.id} has amount ${order.amount}, visible ${order.visibleAmount} of original ${order.originalAmount}`,
+                order.id
+            );
+        }
+
+        const matched = book.matchedAmounts.get(order.id) ?? 0;
+        if (matched > filled) {
+            report(AuditCheck.FILL_MISMATCH, `Order ${order.id} traded ${matched} but only ${filled} is filled`, order.id);
+        }
+    };
+
+    const checkSide = (levels: readonly PriceLevel[], type: OrderType) => {
+        levels.forEach((level, i) => {
+            const previous = levels[i - 1];
+            if (previous && (type === OrderType.BUY ? previous.price <= level.price : previous.price >= level.price)) {
+                report(AuditCheck.SORT_ORDER, `${type} level ${level.price} is out of order after ${previous.price}`);
+            }
+            if (level.orders.length === 0) {
+                report(AuditCheck.SORT_ORDER, `${type} level ${level.price} is empty`);
+            }
+
+            level.orders.forEach((order, j) => {
+                checkOrder(order, `${type} ${level.price}`);
+                if (order.type !== type || order.isStopOrder()) {
+                    report(AuditCheck.WRONG_SIDE, `${order.type} ${order.kind} order ${order.id} rests on the ${type} side`, order.id);
+                }
+                if (order.price !== level.price) {
+                    report(AuditCheck.SORT_ORDER, `Order ${order.id} at ${order.price} is filed under level ${level.price}`, order.id);
+                }
+
+                const before = level.orders[j - 1];
+                if (before && (before.timestamp > order.timestamp ||
+                    (before.timestamp === order.timestamp && before.id.localeCompare(order.id) > 0))) {
+                    report(AuditCheck.SORT_ORDER, `Order ${order.id} is queued behind the later order ${before.id}`, order.id);
+                }
+            });
+        });
+    };
+
+    checkSide(book.bids, OrderType.BUY);
+    checkSide(book.asks, OrderType.SELL);
+
+    for (const order of book.stopOrders) {
+        checkOrder(order, 'stop orders');
+        if (!order.isStopOrder()) {
+            report(AuditCheck.WRONG_SIDE, `${order.kind} order ${order.id} waits among the stop orders`, order.id);
+        }
+    }
+
+    const bestBid = book.bids[0]?.price;
+    const bestAsk = book.asks[0]?.price;
+    if (book.matching && bestBid !== undefined && bestAsk !== undefined && bestBid >= bestAsk) {
+        report(AuditCheck.CROSSED_BOOK, `Best bid ${bestBid} is at or above best ask ${bestAsk}`);
+    }
+
+    return violations;
+}
@@ -0,0 +1,92 @@
+import {Order, OrderType} from './Order';
+import {OrderMatch} from './OrderBook';
+import {CandleAggregator, CandleInterval} from './CandleAggregator';
+import {FeeCurrency, FeeRole} from './FeeEngine';
+
+describe('CandleAggregator', () => {
+    const MINUTE = 60 * 1000;
+    let aggregator: CandleAggregator;
+    let matchCount = 0;
+
+    const createMatch = (timestamp: number, price: number, matchedAmount = 1, id = `match-${++matchCount}`): OrderMatch => ({
+        id,
+        buyOrder: new Order({type: OrderType.BUY, price, amount: matchedAmount, clientId: 'buyer'}),
+        sellOrder: new Order({type: OrderType.SELL, price, amount: matchedAmount, clientId: 'seller'}),
+        matchedAmount,
+        price,
+        timestamp,
+        fees: {
+            buy: {role: FeeRole.TAKER, rateBps: 0, amount: 0, currency: FeeCurrency.QUOTE},
+            sell: {role: FeeRole.MAKER, rateBps: 0, amount: 0, currency: FeeCurrency.QUOTE}
+        }
+    });
+
+    beforeEach(() => {
+        aggregator = new CandleAggregator();
+    });
+
+    it('should build open, high, low, close, volume and trade count per interval', () => {
+        aggregator.add(createMatch(10 * 1000, 100, 2));
+        aggregator.add(createMatch(20 * 1000, 105, 1));
+        aggregator.add(createMatch(30 * 1000, 98, 3));
+        aggregator.add(createMatch(50 * 1000, 101, 1));
+        aggregator.add(createMatch(MINUTE + 5000, 102, 4));
+
+        expect(aggregator.query(CandleInterval.ONE_MINUTE)).toEqual([
+            {openTime: 0, open: 100, high: 105, low: 98, close: 101, volume: 7, tradeCount: 4},
+            {openTime: MINUTE, open: 102, high: 102, low: 102, close: 102, volume: 4, tradeCount: 1}
+        ]);
+        expect(aggregator.query(CandleInterval.FIVE_MINUTES)).toEqual([
+            {openTime: 0, open: 100, high: 105, low: 98, close: 102, volume: 11, tradeCount: 5}
+        ]);
+    });
+
+    it('should fill empty intervals with the previous close', () => {
+        aggregator.add(createMatch(0, 100));
+        aggregator.add(createMatch(3 * MINUTE, 110));
+
+        expect(aggregator.query(CandleInterval.ONE_MINUTE).map(candle => [candle.openTime, candle.close, candle.tradeCount])).toEqual([
+            [0, 100, 1],
+            [MINUTE, 100, 0],
+            [2 * MINUTE, 100, 0],
+            [3 * MINUTE, 110, 1]
+        ]);
+    });
+
+    it('should place late matches in the candle of their own timestamp', () => {
+        aggregator.add(createMatch(30 * 1000, 100));
+        aggregator.add(createMatch(2 * MINUTE, 120));
+        aggregator.add(createMatch(10 * 1000, 90));
+
+        const [first] = aggregator.query(CandleInterval.ONE_MINUTE);
+
+        expect(first).toEqual({openTime: 0, open: 90, high: 100, low: 90, close: 100, volume: 2, tradeCount: 2});
+    });
+
+    it('should ignore duplicate matches and matches beyond the late tolerance', () => {
+        aggregator = new CandleAggregator({lateToleranceMs: MINUTE});
+        const match = createMatch(5 * MINUTE, 100);
+
+        expect(aggregator.add(match)).toBe(true);
+        expect(aggregator.add(match)).toBe(false);
+        expect(aggregator.add(createMatch(MINUTE, 100))).toBe(false);
+        expect(aggregator.query(CandleInterval.ONE_MINUTE)).toHaveLength(1);
+    });
+
+    it('should return the requested range and limit', () => {
+        [0, 1, 2, 3, 4].forEach(minute => aggregator.add(createMatch(minute * MINUTE, 100 + minute)));
+
+        const range = aggregator.query(CandleInterval.ONE_MINUTE, {from: MINUTE, to: 3 * MINUTE});
+        const latest = aggregator.query(CandleInterval.ONE_MINUTE, {limit: 2});
+
+        expect(range.map(candle => candle.close)).toEqual([101, 102]);
+        expect(latest.map(candle => candle.close)).toEqual([103, 104]);
+    });
+
+    it('should reject intervals it does not keep and invalid limits', () => {
+        aggregator = new CandleAggregator({intervals: [CandleInterval.ONE_HOUR]});
+
+        expect(() => aggregator.query(CandleInterval.ONE_MINUTE)).toThrow(expect.objectContaining({code: 'UNKNOWN_INTERVAL'}));
+        expect(() => aggregator.query(CandleInterval.ONE_HOUR, {limit: 0})).toThrow(expect.objectContaining({code: 'INVALID_LIMIT'}));
+    });
+});
@@ -0,0 +1,259 @@
+import type {OrderMatch} from './OrderBook';
+
+export enum CandleInterval {
+    ONE_MINUTE = '1m',
+    FIVE_MINUTES = '5m',
+    ONE_HOUR = '1h',
+    ONE_DAY = '1d',
+}
+
+export const CANDLE_INTERVAL_MS: Record<CandleInterval, number> = {
+    [CandleInterval.ONE_MINUTE]: 60 * 1000,
+    [CandleInterval.FIVE_MINUTES]: 5 * 60 * 1000,
+    [CandleInterval.ONE_HOUR]: 60 * 60 * 1000,
+    [CandleInterval.ONE_DAY]: 24 * 60 * 60 * 1000,
+};
+
+export const DEFAULT_MAX_CANDLES = 1000;
+export const DEFAULT_LATE_TOLERANCE_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_CANDLE_LIMIT = 500;
+
+export class CandleError extends Error {
+    constructor(message: string, public readonly code: string) {
+        super(message);
+        this.name = 'CandleError';
+    }
+}
+
+/**
+ * Prices in ticks, volume in lots. An interval without trades repeats the previous close with no volume.
+ */
+export interface Candle {
+    /** Start of the interval, aligned to UTC */
+    openTime: number;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+    tradeCount: number;
+}
+
+export interface CandleAggregatorOptions {
+    intervals?: CandleInterval[];
+    /** Candles kept per interval; the oldest are dropped first */
+    maxCandles?: number;
+    /** Matches this much older than the newest one seen are dropped instead of rewriting old candles */
+    lateToleranceMs?: number;
+}
+
+/**
+ * Covers openTime from (inclusive) to to (exclusive); without a range the latest candles are returned
+ */
+export interface CandleQuery {
+    from?: number;
+    to?: number;
+    limit?: number;
+}
+
+/**
+ * What a candle needs from a match; peers announce and sync trades in this shape
+ */
+export type CandleTrade = Pick<OrderMatch, 'id' | 'price' | 'matchedAmount' | 'timestamp'>;
+
+interface CandleState extends Candle {
+    openTimestamp: number;
+    closeTimestamp: number;
+}
+
+interface CandleSeries {
+    /** Sorted by openTime */
+    openTimes: number[];
+    candles: Map<number, CandleState>;
+}
+
+/**
+ * Builds OHLCV candles from executed matches. Matches may arrive late or more than once, from this node
+ * or from its peers: each is added to the candle of its own timestamp, and a match ID that was already
+ * counted is ignored. Order books give the same trade the same ID on every node.
+ */
+export class CandleAggregator {
+    private readonly series = new Map<CandleInterval, CandleSeries>();
+    /** Match IDs within the late tolerance, with their timestamps */
+    private readonly seenMatches = new Map<string, number>();
+    private latestTimestamp = -Infinity;
+
+    constructor(private readonly options: CandleAggregatorOptions = {}) {
+        (options.intervals ?? Object.values(CandleInterval)).forEach(interval => {
+            this.series.set(interval, {openTimes: [], candles: new Map()});
+        });
+    }
+
+    public getIntervals(): CandleInterval[] {
+        return [...this.series.keys()];
+    }
+
+    /**
+     * Returns false when the match was ignored as a duplicate or as too late
+     */
+    public add(match: CandleTrade): boolean {
+        const lateToleranceMs = this.options.lateToleranceMs ?? DEFAULT_LATE_TOLERANCE_MS;
+        if (this.seenMatches.has(match.id) || match.timestamp < this.latestTimestamp - lateToleranceMs) {
+            return false;
+        }
+
+        this.seenMatches.set(match.id, match.timestamp);
+        if (match.timestamp > this.latestTimestamp) {
+            this.latestTimestamp = match.timestamp;
+            this.pruneSeenMatches(this.latestTimestamp - lateToleranceMs);
+        }
+
+        this.series.forEach((series, interval) => this.addToSeries(series, CANDLE_INTERVAL_MS[interval], match));
+        return true;
+    }
+
+    public static isValidTrade(value: unknown): value is CandleTrade {
+        const trade = value as Record<string, unknown>;
+        return !!trade && typeof trade === 'object' &&
+            typeof trade.id === 'string' &&
+            Number.isSafeInteger(trade.price) && (trade.price as number) > 0 &&
+            Number.isSafeInteger(trade.matchedAmount) && (trade.matchedAmount as number) > 0 &&
+            Number.isSafeInteger(trade.timestamp);
+    }
+
+    public query(interval: CandleInterval, query: CandleQuery = {}): Candle[] {
+        const series = this.series.get(interval);
+        if (!series) {
+            throw new CandleError(`Candles are not kept for interval ${interval}`, 'UNKNOWN_INTERVAL');
+        }
+
+        const limit = query.limit ?? DEFAULT_CANDLE_LIMIT;
+        const maxCandles = this.options.maxCandles ?? DEFAULT_MAX_CANDLES;
+        if (!Number.isSafeInteger(limit) || limit <= 0 || limit > maxCandles) {
+            throw new CandleError(`Limit must be between 1 and ${maxCandles}`, 'INVALID_LIMIT');
+        }
+
+        const isValidTime = (time?: number) => time === undefined || Number.isSafeInteger(time);
+        if (!isValidTime(query.from) || !isValidTime(query.to) ||
+            (query.from !== undefined && query.to !== undefined && query.from > query.to)) {
+            throw new CandleError('Invalid time range', 'INVALID_TIME_RANGE');
+        }
+
+        if (series.openTimes.length === 0) {
+            return [];
+        }
+
+        const intervalMs = CANDLE_INTERVAL_MS[interval];
+        const end = query.to ?? series.openTimes[series.openTimes.length - 1] + intervalMs;
+        const start = Math.max(
+            query.from === undefined
+                ? alignTime(end - 1, intervalMs) - (limit - 1) * intervalMs
+                : alignTime(query.from + intervalMs - 1, intervalMs),
+            series.openTimes[0]
+        );
+
+        // Empty intervals carry the close of the last candle before them
+        const previousIndex = this.findIndex(series.openTimes, start) - 1;
+        let previousClose = previousIndex >= 0 ? series.candles.get(series.openTimes[previousIndex])!.close : undefined;
+
+        const candles: Candle[] = [];
+        for (let openTime = start; openTime < end && candles.length < limit; openTime += intervalMs) {
+            const state = series.candles.get(openTime);
+            if (state) {
+                const {open, high, low, close, volume, tradeCount} = state;
+                candles.push({openTime, open, high, low, close, volume, tradeCount});
+                previousClose = state.close;
+            } else if (previousClose !== undefined) {
+                candles.push({
+                    openTime,
+                    open: previousClose,
+                    high: previousClose,
+                    low: previousClose,
+                    close: previousClose,
+                    volume: 0,
+                    tradeCount: 0
+                });
+            }
+        }
+
+        return candles;
+    }
+
+    private addToSeries(series: CandleSeries, intervalMs: number, match: CandleTrade): void {
+        const openTime = alignTime(match.timestamp, intervalMs);
+        const existing = series.candles.get(openTime);
+
+        if (!existing) {
+            const maxCandles = this.options.maxCandles ?? DEFAULT_MAX_CANDLES;
+            if (series.openTimes.length >= maxCandles && openTime < series.openTimes[0]) {
+                // Older than everything kept, and keeping it would push out a newer candle
+                return;
+            }
+
+            series.openTimes.splice(this.findIndex(series.openTimes, openTime), 0, openTime);
+            series.candles.set(openTime, {
+                openTime,
+                open: match.price,
+                high: match.price,
+                low: match.price,
+                close: match.price,
+                volume: match.matchedAmount,
+                tradeCount: 1,
+                openTimestamp: match.timestamp,
+                closeTimestamp: match.timestamp
+            });
+
+            while (series.openTimes.length > maxCandles) {
+                series.candles.delete(series.openTimes.shift()!);
+            }
+            return;
+        }
+
+        existing.high = Math.max(existing.high, match.price);
+        existing.low = Math.min(existing.low, match.price);
+        existing.volume += match.matchedAmount;
+        existing.tradeCount++;
+        // Matches with equal timestamps keep the order in which they were added
+        if (match.timestamp < existing.openTimestamp) {
+            existing.open = match.price;
+            existing.openTimestamp = match.timestamp;
+        }
+        if (match.timestamp >= existing.closeTimestamp) {
+            existing.close = match.price;
+            existing.closeTimestamp = match.timestamp;
+        }
+    }
+
+    private pruneSeenMatches(cutoff: number): void {
+        // Roughly oldest first; a late match pruned a little later than it could be does no harm
+        for (const [matchId, timestamp] of this.seenMatches) {
+            if (timestamp >= cutoff) {
+                break;
+            }
+            this.seenMatches.delete(matchId);
+        }
+    }
+
+    /**
+     * First position whose open time is not before the given one
+     */
+    private findIndex(openTimes: number[], openTime: number): number {
+        let low = 0;
+        let high = openTimes.length;
+
+        while (low < high) {
+            const middle = (low + high) >>> 1;
+            if (openTimes[middle] < openTime) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+
+        return low;
+    }
+}
+
+function alignTime(timestamp: number, intervalMs: number): number {
+    return timestamp - (((timestamp % intervalMs) + intervalMs) % intervalMs);
+}
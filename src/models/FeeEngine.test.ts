@@ -0,0 +1,131 @@
+import {Order, OrderType} from './Order';
+import {OrderMatch} from './OrderBook';
+import {FeeCurrency, FeeEngine, FeeRole} from './FeeEngine';
+
+describe('FeeEngine', () => {
+    const HOUR = 60 * 60 * 1000;
+    const tiers = [
+        {minVolume: 0, makerBps: 10, takerBps: 20},
+        {minVolume: 100, makerBps: -5, takerBps: 15}
+    ];
+
+    const createTrade = (timestamp: number, matchedAmount = 10, price = 1000) => ({
+        id: `match-${timestamp}`,
+        buyOrder: new Order({type: OrderType.BUY, price, amount: matchedAmount, clientId: 'buyer'}),
+        sellOrder: new Order({type: OrderType.SELL, price, amount: matchedAmount, clientId: 'seller'}),
+        matchedAmount,
+        price,
+        timestamp
+    });
+
+    const execute = (engine: FeeEngine, timestamp: number, matchedAmount = 10): OrderMatch => {
+        const trade = createTrade(timestamp, matchedAmount);
+        const match = {...trade, fees: engine.calculate(trade, timestamp, OrderType.BUY)};
+        engine.record(match, timestamp);
+        return match;
+    };
+
+    it('should charge nothing without a schedule', () => {
+        const engine = new FeeEngine();
+
+        const fees = engine.calculate(createTrade(1000), 1000, OrderType.BUY);
+
+        expect(fees.buy).toEqual({role: FeeRole.TAKER, rateBps: 0, amount: 0, currency: FeeCurrency.QUOTE});
+        expect(fees.sell.role).toBe(FeeRole.MAKER);
+    });
+
+    it('should charge the taker and maker rates on the notional', () => {
+        const engine = new FeeEngine({tiers});
+
+        const fees = engine.calculate(createTrade(1000, 3, 1001), 1000, OrderType.SELL);
+
+        // 3003 notional: 20 bps is 6.006, rounded up; 10 bps is 3.003
+        expect(fees.sell).toMatchObject({role: FeeRole.TAKER, rateBps: 20, amount: 7});
+        expect(fees.buy).toMatchObject({role: FeeRole.MAKER, rateBps: 10, amount: 4});
+    });
+
+    it('should charge in lots when fees are taken in the base currency', () => {
+        const engine = new FeeEngine({tiers, currency: FeeCurrency.BASE});
+
+        const fees = engine.calculate(createTrade(1000, 1000), 1000, OrderType.BUY);
+
+        expect(fees.buy).toMatchObject({amount: 2, currency: FeeCurrency.BASE});
+        expect(fees.sell).toMatchObject({amount: 1, currency: FeeCurrency.BASE});
+    });
+
+    it('should make both sides makers when there is no taker', () => {
+        const engine = new FeeEngine({tiers});
+
+        const fees = engine.calculate(createTrade(1000), 1000);
+
+        expect([fees.buy.role, fees.sell.role]).toEqual([FeeRole.MAKER, FeeRole.MAKER]);
+    });
+
+    it('should move clients up a tier with their rolling volume and pay rebates', () => {
+        const engine = new FeeEngine({tiers, volumeWindowMs: 24 * HOUR});
+        for (let i = 0; i < 10; i++) {
+            execute(engine, 1000 + i);
+        }
+
+        expect(engine.getVolume('seller', 2000)).toBe(100);
+        const match = execute(engine, 2000);
+
+        expect(match.fees.buy).toMatchObject({rateBps: 15, amount: 15});
+        // 10000 notional at -5 bps
+        expect(match.fees.sell).toMatchObject({rateBps: -5, amount: -5});
+    });
+
+    it('should drop volume that has left the window', () => {
+        const engine = new FeeEngine({tiers, volumeWindowMs: 24 * HOUR});
+        execute(engine, 0, 100);
+
+        expect(engine.getTier('buyer', 23 * HOUR).minVolume).toBe(100);
+        expect(engine.getTier('buyer', 25 * HOUR).minVolume).toBe(0);
+        expect(engine.getVolume('buyer', 25 * HOUR)).toBe(0);
+    });
+
+    it('should leave volume in place when a tier is read at a later time', () => {
+        const engine = new FeeEngine({tiers, volumeWindowMs: 24 * HOUR});
+        execute(engine, 1000, 100);
+
+        expect(engine.getTier('buyer', 365 * 24 * HOUR).minVolume).toBe(0);
+        expect(engine.getTier('buyer', 2000).minVolume).toBe(100);
+        expect(engine.getState()).toEqual([
+            {clientId: 'buyer', start: 0, amount: 100},
+            {clientId: 'seller', start: 0, amount: 100}
+        ]);
+    });
+
+    it('should count volume in the order time it is given', () => {
+        const engine = new FeeEngine({tiers, volumeWindowMs: 24 * HOUR});
+        const trade = createTrade(30 * 24 * HOUR, 100);
+        engine.record({...trade, fees: engine.calculate(trade, 0)}, 0);
+
+        expect(engine.getVolume('buyer', 23 * HOUR)).toBe(100);
+        expect(engine.getVolume('buyer', 30 * 24 * HOUR)).toBe(0);
+    });
+
+    it('should restore client volumes from its state', () => {
+        const engine = new FeeEngine({tiers});
+        execute(engine, 1000, 60);
+        execute(engine, HOUR + 1000, 40);
+        const other = new FeeEngine({tiers});
+
+        const state = JSON.parse(JSON.stringify(engine.getState()));
+        expect(FeeEngine.isValidState(state)).toBe(true);
+        other.setState(state);
+
+        expect(other.getTier('seller', 2 * HOUR)).toEqual(tiers[1]);
+        expect(other.getState()).toEqual(engine.getState());
+        expect(FeeEngine.isValidState([{clientId: 'seller', start: 'soon', amount: 1}])).toBe(false);
+    });
+
+    it('should reject schedules that do not start at zero volume or pay more than they charge', () => {
+        expect(() => new FeeEngine({tiers: [{minVolume: 10, makerBps: 0, takerBps: 0}]}))
+            .toThrow(expect.objectContaining({code: 'INVALID_FEE_SCHEDULE'}));
+        expect(() => new FeeEngine({tiers: [{minVolume: 0, makerBps: -30, takerBps: 20}]}))
+            .toThrow(expect.objectContaining({code: 'INVALID_FEE_SCHEDULE'}));
+        expect(() => new FeeEngine({tiers: [tiers[1], tiers[0]]}))
+            .toThrow(expect.objectContaining({code: 'INVALID_FEE_SCHEDULE'}));
+    });
+});
@@ -0,0 +1,225 @@
+import {OrderType} from './Order';
+import type {OrderMatch} from './OrderBook';
+import {mulDiv, Rounding} from './FixedPoint';
+
+const BPS_DENOMINATOR = 10000;
+const VOLUME_BUCKET_MS = 60 * 60 * 1000;
+
+export const DEFAULT_VOLUME_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+export enum FeeRole {
+    MAKER = 'maker',
+    TAKER = 'taker',
+}
+
+/**
+ * Quote fees are in units of one tick times one lot, i.e. 10^-(pricePrecision + amountPrecision) of the
+ * quote currency; base fees are in lots
+ */
+export enum FeeCurrency {
+    QUOTE = 'quote',
+    BASE = 'base',
+}
+
+export class FeeError extends Error {
+    constructor(message: string, public readonly code: string) {
+        super(message);
+        this.name = 'FeeError';
+    }
+}
+
+/**
+ * Rates in basis points; a negative maker rate is a rebate
+ */
+export interface FeeTier {
+    /** Rolling volume, in lots, from which the tier applies */
+    minVolume: number;
+    makerBps: number;
+    takerBps: number;
+}
+
+export interface FeeEngineOptions {
+    /** Ordered by minVolume, the first starting at 0; no fees when omitted */
+    tiers?: FeeTier[];
+    currency?: FeeCurrency;
+    /** How far back a client's volume counts towards its tier */
+    volumeWindowMs?: number;
+}
+
+export interface MatchFee {
+    role: FeeRole;
+    rateBps: number;
+    /** Positive is charged to the client, negative is paid to it */
+    amount: number;
+    currency: FeeCurrency;
+}
+
+export interface MatchFees {
+    buy: MatchFee;
+    sell: MatchFee;
+}
+
+/**
+ * Volume one client traded in one hour, replicated with the book so every node charges the same tier
+ */
+export interface FeeVolume {
+    clientId: string;
+    start: number;
+    amount: number;
+}
+
+/**
+ * Works out maker and taker fees for matches from a tiered schedule. A client's tier follows its own
+ * volume in the book over a rolling window. Time is order time, passed in by the book, and the volumes
+ * are part of the replicated book state, so every node charges the same fees for the same trade.
+ */
+export class FeeEngine {
+    private readonly tiers: FeeTier[];
+    /** Volume per client in hourly buckets, oldest first */
+    private readonly volumes = new Map<string, Array<{start: number; amount: number}>>();
+
+    constructor(private readonly options: FeeEngineOptions = {}) {
+        this.tiers = (options.tiers ?? [{minVolume: 0, makerBps: 0, takerBps: 0}]).map(tier => ({...tier}));
+
+        if (!FeeEngine.isValidSchedule(this.tiers)) {
+            throw new FeeError('Invalid fee schedule', 'INVALID_FEE_SCHEDULE');
+        }
+        if (options.currency !== undefined && !Object.values(FeeCurrency).includes(options.currency)) {
+            throw new FeeError(`Invalid fee currency: ${options.currency}`, 'INVALID_FEE_CURRENCY');
+        }
+    }
+
+    public static isValidSchedule(tiers: FeeTier[]): boolean {
+        const isBps = (bps: number) => Number.isSafeInteger(bps) && Math.abs(bps) <= BPS_DENOMINATOR;
+
+        return tiers.length > 0 && tiers[0].minVolume === 0 && tiers.every((tier, i) =>
+            Number.isSafeInteger(tier.minVolume) && isBps(tier.makerBps) && isBps(tier.takerBps) &&
+            tier.takerBps >= 0 && tier.makerBps + tier.takerBps >= 0 &&
+            (i === 0 || tier.minVolume > tiers[i - 1].minVolume)
+        );
+    }
+
+    public getSchedule(): {currency: FeeCurrency; tiers: FeeTier[]} {
+        return {currency: this.getCurrency(), tiers: this.tiers.map(tier => ({...tier}))};
+    }
+
+    public getCurrency(): FeeCurrency {
+        return this.options.currency ?? FeeCurrency.QUOTE;
+    }
+
+    /**
+     * Highest rate any client can be charged, for holding enough funds to pay a fee
+     */
+    public getMaxRateBps(): number {
+        return Math.max(0, ...this.tiers.map(tier => Math.max(tier.makerBps, tier.takerBps)));
+    }
+
+    /**
+     * Volume of the window that ends at order time now; reading it leaves the replicated buckets as they are
+     */
+    public getVolume(clientId: string, now: number): number {
+        const cutoff = this.getCutoff(now);
+        return (this.volumes.get(clientId) ?? [])
+            .filter(bucket => bucket.start + VOLUME_BUCKET_MS > cutoff && bucket.start <= now)
+            .reduce((sum, bucket) => sum + bucket.amount, 0);
+    }
+
+    public getTier(clientId: string, now: number): FeeTier {
+        const volume = this.getVolume(clientId, now);
+        let tier = this.tiers[0];
+        for (const candidate of this.tiers) {
+            if (volume >= candidate.minVolume) {
+                tier = candidate;
+            }
+        }
+        return {...tier};
+    }
+
+    /**
+     * Fees for both sides of a match, at the tiers the clients held at order time now. The taker is the
+     * side of the incoming order; without one, as in an auction, both sides are makers.
+     */
+    public calculate(match: Omit<OrderMatch, 'fees'>, now: number, takerType?: OrderType): MatchFees {
+        const feeFor = (type: OrderType, clientId: string): MatchFee => {
+            const role = type === takerType ? FeeRole.TAKER : FeeRole.MAKER;
+            const tier = this.getTier(clientId, now);
+            const rateBps = role === FeeRole.TAKER ? tier.takerBps : tier.makerBps;
+            return {role, rateBps, amount: this.computeAmount(match, rateBps), currency: this.getCurrency()};
+        };
+
+        return {
+            buy: feeFor(OrderType.BUY, match.buyOrder.clientId),
+            sell: feeFor(OrderType.SELL, match.sellOrder.clientId)
+        };
+    }
+
+    /**
+     * Counts an executed match towards the volume of both clients, in the hour of order time now, and drops
+     * the hours that have left the window. Pruning cannot be undone, so now must never go back; the order
+     * book passes its book time.
+     */
+    public record(match: OrderMatch, now: number): void {
+        const start = now - now % VOLUME_BUCKET_MS;
+
+        for (const clientId of [match.buyOrder.clientId, match.sellOrder.clientId]) {
+            const buckets = this.pruneVolume(clientId, now);
+            const bucket = buckets.find(candidate => candidate.start === start);
+            if (bucket) {
+                bucket.amount += match.matchedAmount;
+            } else {
+                buckets.push({start, amount: match.matchedAmount});
+                buckets.sort((a, b) => a.start - b.start);
+            }
+            this.volumes.set(clientId, buckets);
+        }
+    }
+
+    public getState(): FeeVolume[] {
+        const volumes: FeeVolume[] = [];
+        this.volumes.forEach((buckets, clientId) => {
+            buckets.forEach(bucket => volumes.push({clientId, ...bucket}));
+        });
+        return volumes;
+    }
+
+    public setState(volumes: FeeVolume[]): void {
+        this.volumes.clear();
+        for (const {clientId, start, amount} of volumes) {
+            const buckets = this.volumes.get(clientId) ?? [];
+            buckets.push({start, amount});
+            buckets.sort((a, b) => a.start - b.start);
+            this.volumes.set(clientId, buckets);
+        }
+    }
+
+    public static isValidState(volumes: unknown): volumes is FeeVolume[] {
+        return Array.isArray(volumes) && volumes.every(volume => {
+            const record = volume as Record<string, unknown>;
+            return !!volume && typeof volume === 'object' && typeof record.clientId === 'string' &&
+                Number.isSafeInteger(record.start) && Number.isSafeInteger(record.amount);
+        });
+    }
+
+    private computeAmount(match: Omit<OrderMatch, 'fees'>, rateBps: number): number {
+        // Rounds charges up and rebates towards zero
+        return this.getCurrency() === FeeCurrency.BASE
+            ? mulDiv(match.matchedAmount, rateBps, BPS_DENOMINATOR, Rounding.UP)
+            : mulDiv(match.price, match.matchedAmount * rateBps, BPS_DENOMINATOR, Rounding.UP);
+    }
+
+    private getCutoff(now: number): number {
+        return now - (this.options.volumeWindowMs ?? DEFAULT_VOLUME_WINDOW_MS);
+    }
+
+    private pruneVolume(clientId: string, now: number): Array<{start: number; amount: number}> {
+        const cutoff = this.getCutoff(now);
+        const buckets = (this.volumes.get(clientId) ?? []).filter(bucket => bucket.start + VOLUME_BUCKET_MS > cutoff);
+
+        if (buckets.length === 0) {
+            this.volumes.delete(clientId);
+        } else {
+            this.volumes.set(clientId, buckets);
+        }
+        return buckets;
+    }
+}
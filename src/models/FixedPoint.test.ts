@@ -0,0 +1,43 @@
+import {formatUnits, fromUnits, mulDiv, Rounding, toUnits} from './FixedPoint';
+
+describe('FixedPoint', () => {
+    describe('toUnits', () => {
+        it('should convert decimals into integer units', () => {
+            expect(toUnits(0.1, 8)).toBe(10000000);
+            expect(toUnits(73.12, 2)).toBe(7312);
+            expect(toUnits(5, 0)).toBe(5);
+        });
+
+        it('should reject values with more decimals than the precision', () => {
+            expect(() => toUnits(73.123456, 2)).toThrow(expect.objectContaining({code: 'PRECISION_EXCEEDED'}));
+        });
+
+        it('should reject invalid values and precisions', () => {
+            expect(() => toUnits(NaN, 2)).toThrow(expect.objectContaining({code: 'INVALID_VALUE'}));
+            expect(() => toUnits(1, -1)).toThrow(expect.objectContaining({code: 'INVALID_PRECISION'}));
+            expect(() => toUnits(1e10, 8)).toThrow(expect.objectContaining({code: 'VALUE_OUT_OF_RANGE'}));
+        });
+    });
+
+    describe('formatUnits', () => {
+        it('should format units without floating point error', () => {
+            expect(formatUnits(30000000, 8)).toBe('0.30000000');
+            expect(formatUnits(7312, 2)).toBe('73.12');
+            expect(formatUnits(-5, 2)).toBe('-0.05');
+            expect(formatUnits(42, 0)).toBe('42');
+            expect(fromUnits(10000000 + 20000000, 8)).toBe(0.3);
+        });
+    });
+
+    describe('mulDiv', () => {
+        it('should multiply beyond the safe integer range before dividing', () => {
+            expect(mulDiv(10000000000, 100000000000, 100000000)).toBe(10000000000000);
+        });
+
+        it('should round according to the requested mode', () => {
+            expect(mulDiv(10, 3, 4)).toBe(7);
+            expect(mulDiv(10, 3, 4, Rounding.UP)).toBe(8);
+            expect(mulDiv(10, 4, 4, Rounding.UP)).toBe(10);
+        });
+    });
+});
@@ -0,0 +1,94 @@
+export class FixedPointError extends Error {
+    constructor(message: string, public readonly code: string) {
+        super(message);
+        this.name = 'FixedPointError';
+    }
+}
+
+export enum Rounding {
+    DOWN = 'down',
+    UP = 'up',
+}
+
+const MAX_PRECISION = 12;
+const ROUNDING_TOLERANCE = 1e-6;
+
+function validatePrecision(precision: number): void {
+    if (!Number.isInteger(precision) || precision < 0 || precision > MAX_PRECISION) {
+        throw new FixedPointError(`Invalid precision: ${precision}`, 'INVALID_PRECISION');
+    }
+}
+
+/**
+ * Converts a decimal value into an integer number of units (ticks or lots) of the given precision.
+ * Values carrying more decimals than the precision allows are rejected rather than rounded.
+ */
+export function toUnits(value: number, precision: number): number {
+    validatePrecision(precision);
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new FixedPointError(`Invalid decimal value: ${value}`, 'INVALID_VALUE');
+    }
+
+    const scaled = value * Math.pow(10, precision);
+    const units = Math.round(scaled);
+
+    if (Math.abs(scaled - units) > ROUNDING_TOLERANCE) {
+        throw new FixedPointError(`Value ${value} exceeds precision of ${precision} decimals`, 'PRECISION_EXCEEDED');
+    }
+
+    if (!Number.isSafeInteger(units)) {
+        throw new FixedPointError(`Value ${value} is out of range`, 'VALUE_OUT_OF_RANGE');
+    }
+
+    return units;
+}
+
+export function fromUnits(units: number, precision: number): number {
+    validatePrecision(precision);
+    return Number(formatUnits(units, precision));
+}
+
+/**
+ * Formats integer units as a decimal string without going through floating point.
+ */
+export function formatUnits(units: number, precision: number): string {
+    validatePrecision(precision);
+
+    if (!Number.isSafeInteger(units)) {
+        throw new FixedPointError(`Invalid units: ${units}`, 'INVALID_UNITS');
+    }
+
+    const sign = units < 0 ? '-' : '';
+    const digits = Math.abs(units).toString().padStart(precision + 1, '0');
+
+    if (precision === 0) {
+        return `${sign}${digits}`;
+    }
+
+    return `${sign}${digits.slice(0, -precision)}.${digits.slice(-precision)}`;
+}
+
+/**
+ * Computes a * b / divisor on integers without losing precision in the intermediate product.
+ */
+export function mulDiv(a: number, b: number, divisor: number, rounding: Rounding = Rounding.DOWN): number {
+    if (!Number.isSafeInteger(a) || !Number.isSafeInteger(b) || !Number.isSafeInteger(divisor) || divisor <= 0) {
+        throw new FixedPointError(`Invalid mulDiv operands: ${a}, ${b}, ${divisor}`, 'INVALID_UNITS');
+    }
+
+    const product = BigInt(a) * BigInt(b);
+    const bigDivisor = BigInt(divisor);
+    let quotient = product / bigDivisor;
+
+    if (rounding === Rounding.UP && product % bigDivisor > 0n) {
+        quotient += 1n;
+    }
+
+    const result = Number(quotient);
+    if (!Number.isSafeInteger(result)) {
+        throw new FixedPointError(`mulDiv result out of range: ${quotient}`, 'VALUE_OUT_OF_RANGE');
+    }
+
+    return result;
+}
@@ -0,0 +1,116 @@
+import {Order, OrderType} from './Order';
+import {OrderBook} from './OrderBook';
+import {MarketRegistry} from './MarketRegistry';
+import {MatchingAlgorithm} from './MatchingPolicy';
+
+describe('MarketRegistry', () => {
+    let registry: MarketRegistry;
+
+    beforeEach(() => {
+        registry = new MarketRegistry(['BTC/USD', 'ETH/USD']);
+    });
+
+    it('should create one order book per symbol', () => {
+        expect(registry.getSymbols()).toEqual(['BTC/USD', 'ETH/USD']);
+        expect(registry.getOrderBook('BTC/USD')).not.toBe(registry.getOrderBook('ETH/USD'));
+        expect(registry.getOrderBook('ETH/USD').symbol).toBe('ETH/USD');
+    });
+
+    it('should keep orders of different markets apart', () => {
+        registry.getOrderBook('BTC/USD').addOrder(new Order({
+            symbol: 'BTC/USD',
+            type: OrderType.SELL,
+            price: 100,
+            amount: 10,
+            clientId: 'seller'
+        }));
+
+        const result = registry.getOrderBook('ETH/USD').addOrder(new Order({
+            symbol: 'ETH/USD',
+            type: OrderType.BUY,
+            price: 100,
+            amount: 10,
+            clientId: 'buyer'
+        }));
+
+        expect(result.matches).toHaveLength(0);
+        expect(registry.getOrderBook('BTC/USD').getState().sellOrders).toHaveLength(1);
+        expect(registry.getOrderBook('ETH/USD').getState().buyOrders).toHaveLength(1);
+    });
+
+    it('should throw for an unknown market', () => {
+        expect(() => registry.getOrderBook('XRP/USD')).toThrow(expect.objectContaining({code: 'UNKNOWN_MARKET'}));
+    });
+
+    it('should reject duplicate and malformed symbols', () => {
+        expect(() => registry.addMarket('BTC/USD')).toThrow(expect.objectContaining({code: 'DUPLICATE_MARKET'}));
+        expect(() => registry.addMarket('btcusd')).toThrow(expect.objectContaining({code: 'INVALID_SYMBOL'}));
+    });
+
+    it('should apply default precision unless a spec is given', () => {
+        registry.addMarket({symbol: 'SOL/USD', pricePrecision: 4, amountPrecision: 2});
+
+        expect(registry.getSpec('BTC/USD')).toEqual(MarketRegistry.defaultSpec('BTC/USD'));
+        expect(registry.getSpec('SOL/USD')).toEqual({symbol: 'SOL/USD', pricePrecision: 4, amountPrecision: 2});
+        expect(() => registry.addMarket({symbol: 'DOT/USD', pricePrecision: 1.5, amountPrecision: 2}))
+            .toThrow(expect.objectContaining({code: 'INVALID_PRECISION'}));
+    });
+
+    it('should reject inconsistent trading rules', () => {
+        expect(() => registry.addMarket({...MarketRegistry.defaultSpec('SOL/USD'), tickSize: 0}))
+            .toThrow(expect.objectContaining({code: 'INVALID_MARKET_RULES'}));
+        expect(() => registry.addMarket({...MarketRegistry.defaultSpec('SOL/USD'), minNotional: 10, maxNotional: 5}))
+            .toThrow(expect.objectContaining({code: 'INVALID_MARKET_RULES'}));
+    });
+
+    it('should reprice post-only orders by the market tick size', () => {
+        const orderBook = registry.addMarket({...MarketRegistry.defaultSpec('SOL/USD'), tickSize: 5});
+        orderBook.addOrder(new Order({symbol: 'SOL/USD', type: OrderType.SELL, price: 100, amount: 1, clientId: 'seller'}));
+        const maker = new Order({
+            symbol: 'SOL/USD',
+            type: OrderType.BUY,
+            price: 100,
+            amount: 1,
+            postOnly: true,
+            repriceOnCross: true,
+            clientId: 'buyer'
+        });
+
+        orderBook.addOrder(maker);
+
+        expect(maker.price).toBe(95);
+    });
+
+    it('should reject an unknown matching algorithm', () => {
+        expect(() => registry.addMarket({...MarketRegistry.defaultSpec('SOL/USD'), matching: 'random' as MatchingAlgorithm}))
+            .toThrow(expect.objectContaining({code: 'INVALID_MATCHING_POLICY'}));
+    });
+
+    it('should accept an existing order book', () => {
+        const orderBook = new OrderBook('LTC/USD');
+
+        expect(registry.addMarket('LTC/USD', orderBook)).toBe(orderBook);
+        expect(registry.hasMarket('LTC/USD')).toBe(true);
+    });
+
+    it('should share one ledger among the books when balances are kept', () => {
+        const accounts = new MarketRegistry(['BTC/USD', 'ETH/USD'], {accounts: true});
+
+        expect(accounts.ledger).toBeDefined();
+        expect(accounts.getOrderBook('BTC/USD').ledger).toBe(accounts.ledger);
+        expect(accounts.getOrderBook('ETH/USD').ledger).toBe(accounts.ledger);
+        expect(registry.ledger).toBeUndefined();
+    });
+
+    it('should refuse markets that count a shared asset in another unit', () => {
+        const accounts = new MarketRegistry(['BTC/USD'], {accounts: true});
+
+        // USD is in units of 10^-10 on BTC/USD and BTC in lots of 10^-8
+        expect(() => accounts.addMarket({...MarketRegistry.defaultSpec('ETH/USD'), amountPrecision: 6}))
+            .toThrow(expect.objectContaining({code: 'INCONSISTENT_ASSET_UNITS'}));
+        expect(() => accounts.addMarket('ETH/BTC')).toThrow(expect.objectContaining({code: 'INCONSISTENT_ASSET_UNITS'}));
+        expect(() => accounts.addMarket({...MarketRegistry.defaultSpec('ETH/BTC'), pricePrecision: 2, amountPrecision: 6}))
+            .not.toThrow();
+        expect(() => registry.addMarket({...MarketRegistry.defaultSpec('SOL/USD'), amountPrecision: 6})).not.toThrow();
+    });
+});
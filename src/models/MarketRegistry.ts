@@ -0,0 +1,149 @@
+import {Order} from './Order';
+import {OrderBook, OrderBookOptions} from './OrderBook';
+import {isValidRules, MarketRules} from './MarketRules';
+import {createMatchingPolicy, MatchingAlgorithm} from './MatchingPolicy';
+import {AccountLedger} from './AccountLedger';
+
+export const DEFAULT_PRICE_PRECISION = 2;
+export const DEFAULT_AMOUNT_PRECISION = 8;
+
+/**
+ * Prices are integer ticks of 10^-pricePrecision and amounts integer lots of 10^-amountPrecision.
+ */
+export interface MarketSpec extends MarketRules {
+    symbol: string;
+    pricePrecision: number;
+    amountPrecision: number;
+    /** Price-time priority (fifo) unless set; every node must use the same */
+    matching?: MatchingAlgorithm;
+    /** Pro-rata only: smallest share, in lots, given out in proportion */
+    minAllocation?: number;
+    /** Pro-rata only: the oldest order at a level fills first; on unless false */
+    topOrderPriority?: boolean;
+}
+
+export interface MarketRegistryOptions extends Omit<OrderBookOptions, 'ledger'> {
+    /** Keeps client balances in one ledger that every market settles against */
+    accounts?: boolean;
+}
+
+export class MarketRegistryError extends Error {
+    constructor(message: string, public readonly code: string) {
+        super(message);
+        this.name = 'MarketRegistryError';
+    }
+}
+
+/**
+ * Holds one OrderBook per trading pair so a single node can serve several markets.
+ */
+export class MarketRegistry {
+    private readonly markets = new Map<string, {spec: MarketSpec; orderBook: OrderBook}>();
+    private readonly orderBookOptions: OrderBookOptions;
+    /** Balances of every client in every asset; set when balances are enforced */
+    public readonly ledger: AccountLedger | undefined;
+    /** Power of ten the ledger counts each asset in, fixed by the first market that trades it */
+    private readonly assetScales = new Map<string, number>();
+
+    constructor(markets: Array<string | MarketSpec> = [], options: MarketRegistryOptions = {}) {
+        const {accounts, ...orderBookOptions} = options;
+        this.ledger = accounts ? new AccountLedger() : undefined;
+        this.orderBookOptions = {...orderBookOptions, ledger: this.ledger};
+        markets.forEach(market => this.addMarket(market));
+    }
+
+    public addMarket(market: string | MarketSpec, orderBook?: OrderBook): OrderBook {
+        const spec = typeof market === 'string' ? MarketRegistry.defaultSpec(market) : market;
+        const {symbol} = spec;
+
+        if (!Order.isValidSymbol(symbol)) {
+            throw new MarketRegistryError(`Invalid market symbol: ${symbol}`, 'INVALID_SYMBOL');
+        }
+
+        if (!MarketRegistry.isValidPrecision(spec.pricePrecision) || !MarketRegistry.isValidPrecision(spec.amountPrecision)) {
+            throw new MarketRegistryError(`Invalid precision for market ${symbol}`, 'INVALID_PRECISION');
+        }
+
+        if (!isValidRules(spec)) {
+            throw new MarketRegistryError(`Invalid trading rules for market ${symbol}`, 'INVALID_MARKET_RULES');
+        }
+
+        if ((spec.matching !== undefined && !Object.values(MatchingAlgorithm).includes(spec.matching)) ||
+            (spec.minAllocation !== undefined && (!Number.isSafeInteger(spec.minAllocation) || spec.minAllocation <= 0))) {
+            throw new MarketRegistryError(`Invalid matching policy for market ${symbol}`, 'INVALID_MATCHING_POLICY');
+        }
+
+        if (this.markets.has(symbol)) {
+            throw new MarketRegistryError(`Market ${symbol} already exists`, 'DUPLICATE_MARKET');
+        }
+
+        const assetScales = this.ledger ? MarketRegistry.getAssetScales(spec) : [];
+        for (const [asset, scale] of assetScales) {
+            const existing = this.assetScales.get(asset);
+            if (existing !== undefined && existing !== scale) {
+                throw new MarketRegistryError(
+                    `${symbol} counts ${asset} in units of 10^-${scale}, other markets in units of 10^-${existing}`,
+                    'INCONSISTENT_ASSET_UNITS'
+                );
+            }
+        }
+        assetScales.forEach(([asset, scale]) => this.assetScales.set(asset, scale));
+
+        const book = orderBook || new OrderBook(symbol, {
+            ...this.orderBookOptions,
+            tickSize: spec.tickSize,
+            matchingPolicy: createMatchingPolicy(spec.matching, {
+                minAllocation: spec.minAllocation,
+                topOrderPriority: spec.topOrderPriority,
+                lotSize: spec.lotSize
+            })
+        });
+        this.markets.set(symbol, {spec: {...spec}, orderBook: book});
+        return book;
+    }
+
+    public hasMarket(symbol: string): boolean {
+        return this.markets.has(symbol);
+    }
+
+    public getOrderBook(symbol: string): OrderBook {
+        return this.getMarket(symbol).orderBook;
+    }
+
+    public getSpec(symbol: string): MarketSpec {
+        return {...this.getMarket(symbol).spec};
+    }
+
+    public getSymbols(): string[] {
+        return [...this.markets.keys()];
+    }
+
+    public static defaultSpec(symbol: string): MarketSpec {
+        return {
+            symbol,
+            pricePrecision: DEFAULT_PRICE_PRECISION,
+            amountPrecision: DEFAULT_AMOUNT_PRECISION,
+        };
+    }
+
+    private getMarket(symbol: string): {spec: MarketSpec; orderBook: OrderBook} {
+        const market = this.markets.get(symbol);
+        if (!market) {
+            throw new MarketRegistryError(`Unknown market: ${symbol}`, 'UNKNOWN_MARKET');
+        }
+        return market;
+    }
+
+    /**
+     * Unit each asset of a market is settled in: lots for the base asset, ticks times lots for the quote
+     * asset. One ledger can only hold an asset whose markets all agree on its unit.
+     */
+    private static getAssetScales(spec: MarketSpec): Array<[string, number]> {
+        const [base, quote] = spec.symbol.split('/');
+        return [[base, spec.amountPrecision], [quote, spec.pricePrecision + spec.amountPrecision]];
+    }
+
+    private static isValidPrecision(precision: number): boolean {
+        return Number.isInteger(precision) && precision >= 0 && precision <= 12;
+    }
+}
@@ -0,0 +1,65 @@
+import {Order, OrderKind, OrderType} from './Order';
+import {MarketRegistry, MarketSpec} from './MarketRegistry';
+import {validateAmendment, validateOrder} from './MarketRules';
+
+describe('MarketRules', () => {
+    const spec: MarketSpec = {
+        ...MarketRegistry.defaultSpec('BTC/USD'),
+        tickSize: 5,
+        lotSize: 1000,
+        minAmount: 10000,
+        minNotional: 100,
+        maxNotional: 1000000,
+        minPrice: 1000,
+        maxPrice: 10000000,
+    };
+    const clientId = 'test-client';
+    const limitOrder = (price: number, amount: number) => new Order({type: OrderType.BUY, price, amount, clientId});
+
+    it('should accept orders that follow every rule', () => {
+        expect(() => validateOrder(spec, limitOrder(5000, 100000000))).not.toThrow();
+    });
+
+    it('should reject prices off the tick size or outside the price limits', () => {
+        expect(() => validateOrder(spec, limitOrder(5003, 100000000))).toThrow(expect.objectContaining({code: 'INVALID_TICK_SIZE'}));
+        expect(() => validateOrder(spec, limitOrder(500, 100000000))).toThrow(expect.objectContaining({code: 'PRICE_OUT_OF_RANGE'}));
+    });
+
+    it('should reject amounts off the lot size or below the minimum', () => {
+        expect(() => validateOrder(spec, limitOrder(5000, 100000500))).toThrow(expect.objectContaining({code: 'INVALID_LOT_SIZE'}));
+        expect(() => validateOrder(spec, limitOrder(5000, 5000))).toThrow(expect.objectContaining({code: 'AMOUNT_TOO_SMALL'}));
+    });
+
+    it('should check the notional value in quote ticks', () => {
+        // 50.00 * 0.0001 = 0.005, below the 1.00 minimum
+        expect(() => validateOrder(spec, limitOrder(5000, 10000))).toThrow(expect.objectContaining({code: 'NOTIONAL_TOO_SMALL'}));
+        // 50.00 * 3000 = 150000.00, above the 10000.00 maximum
+        expect(() => validateOrder(spec, limitOrder(5000, 300000000000))).toThrow(expect.objectContaining({code: 'NOTIONAL_TOO_LARGE'}));
+    });
+
+    it('should value market orders at their worst price', () => {
+        const order = new Order({type: OrderType.BUY, kind: OrderKind.MARKET, amount: 10000, worstPrice: 5000, clientId});
+
+        expect(() => validateOrder(spec, order)).toThrow(expect.objectContaining({code: 'NOTIONAL_TOO_SMALL'}));
+        expect(() => validateOrder(spec, new Order({type: OrderType.BUY, kind: OrderKind.MARKET, amount: 10000, clientId})))
+            .not.toThrow();
+    });
+
+    it('should value stop orders like market orders', () => {
+        const stop = (worstPrice?: number) => new Order({
+            type: OrderType.SELL, kind: OrderKind.STOP, amount: 100000000, stopPrice: 4000, worstPrice, clientId
+        });
+
+        expect(() => validateOrder(spec, stop())).not.toThrow();
+        expect(() => validateOrder(spec, stop(3000))).not.toThrow();
+        expect(() => validateOrder(spec, stop(500))).toThrow(expect.objectContaining({code: 'PRICE_OUT_OF_RANGE'}));
+    });
+
+    it('should check the order an amendment would produce', () => {
+        const order = limitOrder(5000, 100000000);
+
+        expect(() => validateAmendment(spec, order, {price: 5005})).not.toThrow();
+        expect(() => validateAmendment(spec, order, {price: 5001})).toThrow(expect.objectContaining({code: 'INVALID_TICK_SIZE'}));
+        expect(() => validateAmendment(spec, order, {amount: 1000})).toThrow(expect.objectContaining({code: 'AMOUNT_TOO_SMALL'}));
+    });
+});
@@ -0,0 +1,121 @@
+import {Order, OrderAmendment, OrderKind} from './Order';
+import {mulDiv, Rounding} from './FixedPoint';
+import type {MarketSpec} from './MarketRegistry';
+
+export class MarketRuleError extends Error {
+    constructor(message: string, public readonly code: string) {
+        super(message);
+        this.name = 'MarketRuleError';
+    }
+}
+
+/**
+ * Trading rules of a market. Prices are in ticks and amounts in lots of the market's precision;
+ * notional is price * amount expressed in price ticks of the quote currency.
+ */
+export interface MarketRules {
+    /** Prices must be a multiple of this many ticks */
+    tickSize?: number;
+    /** Amounts must be a multiple of this many lots */
+    lotSize?: number;
+    minAmount?: number;
+    minNotional?: number;
+    maxNotional?: number;
+    minPrice?: number;
+    maxPrice?: number;
+}
+
+const RULE_NAMES: Array<keyof MarketRules> = [
+    'tickSize', 'lotSize', 'minAmount', 'minNotional', 'maxNotional', 'minPrice', 'maxPrice'
+];
+
+export function isValidRules(rules: MarketRules): boolean {
+    const allPositive = RULE_NAMES.every(name => {
+        const value = rules[name];
+        return value === undefined || (Number.isSafeInteger(value) && value > 0);
+    });
+
+    return allPositive &&
+        !(rules.minNotional !== undefined && rules.maxNotional !== undefined && rules.minNotional > rules.maxNotional) &&
+        !(rules.minPrice !== undefined && rules.maxPrice !== undefined && rules.minPrice > rules.maxPrice);
+}
+
+export function validatePrice(spec: MarketSpec, price: number): void {
+    if (spec.tickSize !== undefined && price % spec.tickSize !== 0) {
+        throw new MarketRuleError(`Price ${price} is not a multiple of the tick size ${spec.tickSize}`, 'INVALID_TICK_SIZE');
+    }
+    if ((spec.minPrice !== undefined && price < spec.minPrice) || (spec.maxPrice !== undefined && price > spec.maxPrice)) {
+        throw new MarketRuleError(`Price ${price} is outside the allowed range of ${spec.symbol}`, 'PRICE_OUT_OF_RANGE');
+    }
+}
+
+export function validateAmount(spec: MarketSpec, amount: number): void {
+    if (spec.lotSize !== undefined && amount % spec.lotSize !== 0) {
+        throw new MarketRuleError(`Amount ${amount} is not a multiple of the lot size ${spec.lotSize}`, 'INVALID_LOT_SIZE');
+    }
+    if (spec.minAmount !== undefined && amount < spec.minAmount) {
+        throw new MarketRuleError(`Amount ${amount} is below the minimum of ${spec.minAmount}`, 'AMOUNT_TOO_SMALL');
+    }
+}
+
+export function validateNotional(spec: MarketSpec, price: number, amount: number): void {
+    const lotsPerUnit = Math.pow(10, spec.amountPrecision);
+
+    if (spec.minNotional !== undefined && mulDiv(price, amount, lotsPerUnit, Rounding.DOWN) < spec.minNotional) {
+        throw new MarketRuleError(`Order value is below the minimum notional of ${spec.minNotional}`, 'NOTIONAL_TOO_SMALL');
+    }
+    if (spec.maxNotional !== undefined && mulDiv(price, amount, lotsPerUnit, Rounding.UP) > spec.maxNotional) {
+        throw new MarketRuleError(`Order value is above the maximum notional of ${spec.maxNotional}`, 'NOTIONAL_TOO_LARGE');
+    }
+}
+
+/**
+ * Checks a new order against the market's rules. Market and stop orders, which trade as market orders
+ * once triggered, are valued at their worst price and pegged orders at their peg limit; any of them
+ * skips the price and notional checks without one.
+ */
+export function validateOrder(spec: MarketSpec, order: Order): void {
+    const valuationPrice = getValuationPrice(order);
+    const prices = [valuationPrice, order.stopPrice];
+    prices.forEach(price => {
+        if (price !== undefined) {
+            validatePrice(spec, price);
+        }
+    });
+
+    validateAmount(spec, order.amount);
+    if (order.displayAmount !== undefined && spec.lotSize !== undefined && order.displayAmount % spec.lotSize !== 0) {
+        throw new MarketRuleError(`Display amount ${order.displayAmount} is not a multiple of the lot size ${spec.lotSize}`, 'INVALID_LOT_SIZE');
+    }
+
+    if (order.pegOffset !== undefined && spec.tickSize !== undefined && order.pegOffset % spec.tickSize !== 0) {
+        throw new MarketRuleError(`Peg offset ${order.pegOffset} is not a multiple of the tick size ${spec.tickSize}`, 'INVALID_TICK_SIZE');
+    }
+
+    if (valuationPrice !== undefined) {
+        validateNotional(spec, valuationPrice, order.amount);
+    }
+}
+
+function getValuationPrice(order: Order): number | undefined {
+    if (order.kind === OrderKind.MARKET || order.kind === OrderKind.STOP) {
+        return order.worstPrice;
+    }
+    return order.isPegged() ? order.pegLimit : order.price;
+}
+
+/**
+ * Checks the order that an amendment would produce
+ */
+export function validateAmendment(spec: MarketSpec, order: Order, changes: OrderAmendment): void {
+    const price = changes.price ?? order.price;
+    const amount = changes.amount ?? order.amount;
+
+    if (changes.price !== undefined) {
+        validatePrice(spec, price);
+    }
+    if (changes.amount !== undefined) {
+        validateAmount(spec, amount);
+    }
+    validateNotional(spec, price, amount);
+}
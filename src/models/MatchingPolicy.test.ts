@@ -0,0 +1,61 @@
+import {Order, OrderType} from './Order';
+import {FifoMatchingPolicy, ProRataMatchingPolicy} from './MatchingPolicy';
+
+describe('MatchingPolicy', () => {
+    const resting = (amount: number, displayAmount?: number) =>
+        new Order({type: OrderType.SELL, price: 100, amount, displayAmount, clientId: 'maker'});
+    const amounts = (allocations: Array<{order: Order; amount: number}>, level: Order[]) =>
+        level.map(order => allocations.find(allocation => allocation.order === order)?.amount ?? 0);
+
+    describe('FifoMatchingPolicy', () => {
+        it('should fill the oldest orders first', () => {
+            const level = [resting(5), resting(5), resting(5)];
+
+            expect(amounts(new FifoMatchingPolicy().allocate(level, 7), level)).toEqual([5, 2, 0]);
+        });
+
+        it('should only allocate the visible slice of an iceberg', () => {
+            const level = [resting(20, 4), resting(5)];
+
+            expect(amounts(new FifoMatchingPolicy().allocate(level, 7), level)).toEqual([4, 3]);
+        });
+    });
+
+    describe('ProRataMatchingPolicy', () => {
+        it('should fill the top order and share the rest in proportion to size', () => {
+            const level = [resting(10), resting(30), resting(10)];
+
+            expect(amounts(new ProRataMatchingPolicy().allocate(level, 30), level)).toEqual([10, 15, 5]);
+        });
+
+        it('should share everything in proportion without top-order priority', () => {
+            const level = [resting(10), resting(30), resting(10)];
+
+            expect(amounts(new ProRataMatchingPolicy({topOrderPriority: false}).allocate(level, 25), level)).toEqual([5, 15, 5]);
+        });
+
+        it('should hand out what rounding and the minimum allocation leave over in time priority', () => {
+            const level = [resting(10), resting(10), resting(1)];
+            const policy = new ProRataMatchingPolicy({topOrderPriority: false, minAllocation: 3});
+
+            // Proportional shares of 7 are 3, 3 and 0; the remaining 1 goes to the oldest order with room
+            expect(amounts(policy.allocate(level, 7), level)).toEqual([4, 3, 0]);
+        });
+
+        it('should round shares down to the lot size', () => {
+            const level = [resting(300), resting(300), resting(300)];
+            const policy = new ProRataMatchingPolicy({topOrderPriority: false, lotSize: 100});
+
+            // Each share of 166 rounds down to 100 and the remaining 200 goes to the oldest order
+            expect(amounts(policy.allocate(level, 500), level)).toEqual([300, 100, 100]);
+        });
+
+        it('should never allocate more than the level holds', () => {
+            const level = [resting(4), resting(6)];
+
+            const allocations = new ProRataMatchingPolicy().allocate(level, 50);
+
+            expect(amounts(allocations, level)).toEqual([4, 6]);
+        });
+    });
+});
@@ -0,0 +1,117 @@
+import {Order} from './Order';
+import {mulDiv, Rounding} from './FixedPoint';
+
+export enum MatchingAlgorithm {
+    FIFO = 'fifo',
+    PRO_RATA = 'pro_rata',
+}
+
+/**
+ * Amount of an incoming order to trade against one resting order
+ */
+export interface Allocation {
+    order: Order;
+    amount: number;
+}
+
+/**
+ * Decides how an incoming order is shared among the resting orders of the best price level. Only
+ * visible amounts can be allocated, the total must be as much of the incoming amount as the level
+ * can take, and allocations come back in queue order. Policies must be deterministic, since every
+ * node matches its own copy of the book.
+ */
+export interface MatchingPolicy {
+    readonly algorithm: MatchingAlgorithm;
+
+    allocate(level: readonly Order[], amount: number): Allocation[];
+}
+
+/**
+ * Price-time priority: the oldest order at the level fills first
+ */
+export class FifoMatchingPolicy implements MatchingPolicy {
+    public readonly algorithm = MatchingAlgorithm.FIFO;
+
+    public allocate(level: readonly Order[], amount: number): Allocation[] {
+        const allocations: Allocation[] = [];
+        let remaining = amount;
+
+        for (const order of level) {
+            if (remaining === 0) {
+                break;
+            }
+            const allocated = Math.min(order.visibleAmount, remaining);
+            if (allocated > 0) {
+                allocations.push({order, amount: allocated});
+                remaining -= allocated;
+            }
+        }
+
+        return allocations;
+    }
+}
+
+export interface ProRataOptions {
+    /** The oldest order at the level fills before the rest is shared out; on by default */
+    topOrderPriority?: boolean;
+    /** Pro-rata shares below this many lots are not given out */
+    minAllocation?: number;
+    /** Shares are rounded down to a multiple of this many lots */
+    lotSize?: number;
+}
+
+/**
+ * Shares the incoming amount in proportion to the visible amount of each resting order. Whatever
+ * rounding and the minimum allocation leave over is handed out in time priority.
+ */
+export class ProRataMatchingPolicy implements MatchingPolicy {
+    public readonly algorithm = MatchingAlgorithm.PRO_RATA;
+
+    constructor(private readonly options: ProRataOptions = {}) {
+    }
+
+    public allocate(level: readonly Order[], amount: number): Allocation[] {
+        const orders = level.filter(order => order.visibleAmount > 0);
+        const allocated = new Map<Order, number>(orders.map(order => [order, 0]));
+        let remaining = Math.min(amount, orders.reduce((sum, order) => sum + order.visibleAmount, 0));
+
+        let shared = orders;
+        if ((this.options.topOrderPriority ?? true) && orders.length > 0) {
+            const top = Math.min(orders[0].visibleAmount, remaining);
+            allocated.set(orders[0], top);
+            remaining -= top;
+            shared = orders.slice(1);
+        }
+
+        const sharedTotal = shared.reduce((sum, order) => sum + order.visibleAmount, 0);
+        const lotSize = this.options.lotSize ?? 1;
+        const pool = remaining;
+        if (pool > 0) {
+            for (const order of shared) {
+                const proportional = mulDiv(pool, order.visibleAmount, sharedTotal, Rounding.DOWN);
+                const share = proportional - proportional % lotSize;
+                if (share > 0 && share >= (this.options.minAllocation ?? 0)) {
+                    allocated.set(order, share);
+                    remaining -= share;
+                }
+            }
+        }
+
+        for (const order of shared) {
+            if (remaining === 0) {
+                break;
+            }
+            const extra = Math.min(order.visibleAmount - allocated.get(order)!, remaining);
+            allocated.set(order, allocated.get(order)! + extra);
+            remaining -= extra;
+        }
+
+        return orders
+            .filter(order => allocated.get(order)! > 0)
+            .map(order => ({order, amount: allocated.get(order)!}));
+    }
+}
+
+export function createMatchingPolicy(algorithm: MatchingAlgorithm = MatchingAlgorithm.FIFO, options: ProRataOptions = {}): MatchingPolicy {
+    return algorithm === MatchingAlgorithm.PRO_RATA ? new ProRataMatchingPolicy(options) : new FifoMatchingPolicy();
+}
@@ -1,4 +1,5 @@
-import { Order, OrderStatus, OrderType } from './Order';
+import { DEFAULT_SYMBOL, Order, OrderKind, OrderStatus, OrderType, PegType, TimeInForce } from './Order';
+import { toUnits } from './FixedPoint';
 
 describe('Order', () => {
     const clientId = 'test-client';
@@ -20,6 +21,24 @@ describe('Order', () => {
             expect(order.clientId).toBe(clientId);
         });
 
+        it('should default the symbol and reject malformed ones', () => {
+            const order = new Order({
+                type: OrderType.BUY,
+                price: 100,
+                amount: 10,
+                clientId
+            });
+
+            expect(order.symbol).toBe(DEFAULT_SYMBOL);
+            expect(() => new Order({
+                symbol: 'btc-usd',
+                type: OrderType.BUY,
+                price: 100,
+                amount: 10,
+                clientId
+            })).toThrow();
+        });
+
         it('should create a valid sell order', () => {
             const order = new Order({
                 type: OrderType.SELL,
@@ -40,6 +59,239 @@ describe('Order', () => {
                 clientId
             })).toThrow();
         });
+
+        it('should reject fractional prices and amounts', () => {
+            expect(() => new Order({
+                type: OrderType.BUY,
+                price: 73.12,
+                amount: 10,
+                clientId
+            })).toThrow(expect.objectContaining({code: 'INVALID_PRICE'}));
+            expect(() => new Order({
+                type: OrderType.BUY,
+                price: 100,
+                amount: 0.5,
+                clientId
+            })).toThrow(expect.objectContaining({code: 'INVALID_AMOUNT'}));
+        });
+    });
+
+    describe('market orders', () => {
+        it('should create a market order without a price', () => {
+            const order = new Order({
+                type: OrderType.BUY,
+                kind: OrderKind.MARKET,
+                amount: 10,
+                worstPrice: 105,
+                clientId
+            });
+
+            expect(order.isMarketOrder()).toBe(true);
+            expect(order.acceptsPrice(105)).toBe(true);
+            expect(order.acceptsPrice(106)).toBe(false);
+            expect(Order.fromObject(order.toJSON()).worstPrice).toBe(105);
+        });
+
+        it('should reject price protection on limit orders and prices on market orders', () => {
+            expect(() => new Order({
+                type: OrderType.BUY,
+                price: 100,
+                amount: 10,
+                maxSlippageBps: 50,
+                clientId
+            })).toThrow(expect.objectContaining({code: 'INVALID_PRICE_PROTECTION'}));
+            expect(() => new Order({
+                type: OrderType.BUY,
+                kind: OrderKind.MARKET,
+                price: 100,
+                amount: 10,
+                clientId
+            })).toThrow(expect.objectContaining({code: 'INVALID_PRICE'}));
+        });
+    });
+
+    describe('time in force', () => {
+        it('should default to GTC for limit orders and IOC for market orders', () => {
+            expect(new Order({type: OrderType.BUY, price: 100, amount: 1, clientId}).timeInForce).toBe(TimeInForce.GTC);
+            expect(new Order({type: OrderType.BUY, kind: OrderKind.MARKET, amount: 1, clientId}).timeInForce).toBe(TimeInForce.IOC);
+        });
+
+        it('should require an expiry for GTD orders only', () => {
+            expect(() => new Order({
+                type: OrderType.BUY,
+                price: 100,
+                amount: 1,
+                timeInForce: TimeInForce.GTD,
+                clientId
+            })).toThrow(expect.objectContaining({code: 'INVALID_EXPIRY'}));
+            expect(() => new Order({
+                type: OrderType.BUY,
+                price: 100,
+                amount: 1,
+                expiresAt: Date.now(),
+                clientId
+            })).toThrow(expect.objectContaining({code: 'INVALID_EXPIRY'}));
+        });
+
+        it('should not allow market orders to rest', () => {
+            expect(() => new Order({
+                type: OrderType.BUY,
+                kind: OrderKind.MARKET,
+                amount: 1,
+                timeInForce: TimeInForce.GTC,
+                clientId
+            })).toThrow(expect.objectContaining({code: 'INVALID_TIME_IN_FORCE'}));
+        });
+    });
+
+    describe('post-only', () => {
+        it('should only allow post-only on resting limit orders', () => {
+            expect(() => new Order({
+                type: OrderType.BUY,
+                price: 100,
+                amount: 1,
+                postOnly: true,
+                timeInForce: TimeInForce.IOC,
+                clientId
+            })).toThrow(expect.objectContaining({code: 'INVALID_POST_ONLY'}));
+            expect(() => new Order({
+                type: OrderType.BUY,
+                price: 100,
+                amount: 1,
+                repriceOnCross: true,
+                clientId
+            })).toThrow(expect.objectContaining({code: 'INVALID_POST_ONLY'}));
+        });
+
+        it('should carry the flags through serialization', () => {
+            const order = new Order({type: OrderType.SELL, price: 100, amount: 1, postOnly: true, repriceOnCross: true, clientId});
+            const copy = Order.fromObject(order.toJSON());
+
+            expect(copy.postOnly).toBe(true);
+            expect(copy.repriceOnCross).toBe(true);
+        });
+    });
+
+    describe('stop orders', () => {
+        it('should require a stop price and trigger on the last trade price', () => {
+            expect(() => new Order({type: OrderType.SELL, kind: OrderKind.STOP, amount: 1, clientId}))
+                .toThrow(expect.objectContaining({code: 'INVALID_STOP_PRICE'}));
+
+            const stop = new Order({type: OrderType.SELL, kind: OrderKind.STOP_LIMIT, stopPrice: 95, price: 94, amount: 1, clientId});
+
+            expect(stop.isTriggeredBy(96)).toBe(false);
+            expect(stop.isTriggeredBy(95)).toBe(true);
+
+            stop.trigger();
+
+            expect(stop.kind).toBe(OrderKind.LIMIT);
+            expect(stop.isStopOrder()).toBe(false);
+            expect(Order.fromObject(stop.toJSON()).kind).toBe(OrderKind.LIMIT);
+        });
+    });
+
+    describe('iceberg orders', () => {
+        it('should only reveal the visible slice publicly', () => {
+            const order = new Order({type: OrderType.SELL, price: 100, amount: 10, displayAmount: 3, clientId});
+
+            expect(order.toPublicJSON()).toMatchObject({amount: 3});
+            expect(order.toPublicJSON()).not.toHaveProperty('originalAmount');
+            expect(order.toPublicJSON()).not.toHaveProperty('displayAmount');
+            expect(order.toJSON()).toMatchObject({amount: 10, displayAmount: 3, visibleAmount: 3});
+        });
+
+        it('should restore a partly consumed slice from a snapshot', () => {
+            const order = new Order({type: OrderType.SELL, price: 100, amount: 10, displayAmount: 3, clientId});
+            order.updateAfterMatch(2);
+
+            const copy = Order.fromObject(order.toJSON());
+
+            expect(copy.visibleAmount).toBe(1);
+            expect(copy.hiddenAmount).toBe(7);
+        });
+
+        it('should reject icebergs that cannot rest', () => {
+            expect(() => new Order({
+                type: OrderType.BUY,
+                price: 100,
+                amount: 10,
+                displayAmount: 3,
+                timeInForce: TimeInForce.IOC,
+                clientId
+            })).toThrow(expect.objectContaining({code: 'INVALID_DISPLAY_AMOUNT'}));
+        });
+    });
+
+    describe('pegged orders', () => {
+        it('should not need a price and default the offset to zero', () => {
+            const order = new Order({type: OrderType.BUY, pegType: PegType.MID, amount: 10, clientId});
+
+            expect(order.isPegged()).toBe(true);
+            expect(order.price).toBe(0);
+            expect(order.pegOffset).toBe(0);
+            expect(Order.fromObject(order.toJSON()).pegType).toBe(PegType.MID);
+        });
+
+        it('should reject pegs on orders that cannot rest', () => {
+            expect(() => new Order({
+                type: OrderType.BUY,
+                pegType: PegType.PRIMARY,
+                amount: 10,
+                timeInForce: TimeInForce.IOC,
+                clientId
+            })).toThrow(expect.objectContaining({code: 'INVALID_PEG'}));
+            expect(() => new Order({type: OrderType.BUY, price: 100, amount: 10, pegOffset: 1, clientId}))
+                .toThrow(expect.objectContaining({code: 'INVALID_PEG'}));
+        });
+    });
+
+    describe('amend', () => {
+        it('should report whether the amendment loses queue priority', () => {
+            const order = new Order({type: OrderType.BUY, price: 100, amount: 10, timestamp: 1000, clientId});
+
+            expect(order.amend({amount: 8}, 2000)).toBe(false);
+            expect(order.timestamp).toBe(1000);
+            expect(order.amend({price: 101}, 3000)).toBe(true);
+            expect(order.timestamp).toBe(3000);
+            expect(order.version).toBe(3);
+        });
+
+        it('should shrink the visible slice of an iceberg with the order', () => {
+            const order = new Order({type: OrderType.SELL, price: 100, amount: 10, displayAmount: 3, clientId});
+
+            order.amend({amount: 2}, Date.now());
+
+            expect(order.visibleAmount).toBe(2);
+            expect(order.hiddenAmount).toBe(0);
+        });
+
+        it('should reject amendments to inactive orders', () => {
+            const order = new Order({type: OrderType.BUY, price: 100, amount: 10, clientId});
+            order.cancel();
+
+            expect(() => order.amend({amount: 5}, Date.now())).toThrow(expect.objectContaining({code: 'ORDER_NOT_ACTIVE'}));
+        });
+    });
+
+    describe('decrement', () => {
+        it('should remove open quantity without touching the filled part', () => {
+            const order = new Order({type: OrderType.BUY, price: 100, amount: 10, clientId});
+            order.updateAfterMatch(4);
+
+            order.decrement(2);
+
+            expect(order.amount).toBe(4);
+            expect(order.originalAmount).toBe(8);
+            expect(order.status).toBe(OrderStatus.PARTIALLY_FILLED);
+        });
+
+        it('should cancel the order once nothing is left open', () => {
+            const order = new Order({type: OrderType.BUY, price: 100, amount: 10, clientId});
+
+            order.decrement(10);
+
+            expect(order.status).toBe(OrderStatus.CANCELLED);
+        });
     });
 
     describe('updateAfterMatch', () => {
@@ -68,6 +320,20 @@ describe('Order', () => {
             expect(order.amount).toBe(0);
             expect(order.status).toBe(OrderStatus.FILLED);
         });
+
+        it('should reach FILLED exactly when fills add up to the original amount', () => {
+            const order = new Order({
+                type: OrderType.SELL,
+                price: 100,
+                amount: toUnits(0.3, 8),
+                clientId
+            });
+            order.updateAfterMatch(toUnits(0.1, 8));
+            order.updateAfterMatch(toUnits(0.2, 8));
+
+            expect(order.amount).toBe(0);
+            expect(order.status).toBe(OrderStatus.FILLED);
+        });
     });
 
     describe('canMatchWith', () => {
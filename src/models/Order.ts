@@ -5,13 +5,64 @@ export enum OrderType {
     SELL = 'sell',
 }
 
+export enum OrderKind {
+    LIMIT = 'limit',
+    MARKET = 'market',
+    /** Becomes a market order once the last trade price reaches stopPrice */
+    STOP = 'stop',
+    /** Becomes a limit order once the last trade price reaches stopPrice */
+    STOP_LIMIT = 'stop_limit',
+}
+
+export enum TimeInForce {
+    /** Good till cancelled: rests until filled or cancelled */
+    GTC = 'gtc',
+    /** Immediate or cancel: the remainder after matching is cancelled */
+    IOC = 'ioc',
+    /** Fill or kill: executes in full immediately or not at all */
+    FOK = 'fok',
+    /** Good till date: rests until expiresAt */
+    GTD = 'gtd',
+}
+
+/**
+ * Top-of-book price a pegged order follows
+ */
+export enum PegType {
+    /** Best price on the order's own side */
+    PRIMARY = 'primary',
+    /** Best price on the opposite side */
+    MARKET = 'market',
+    /** Midpoint between best bid and best ask */
+    MID = 'mid',
+}
+
+/**
+ * What happens when an order would match a resting order from the same clientId
+ */
+export enum SelfTradePrevention {
+    /** The incoming order is cancelled */
+    CANCEL_NEWEST = 'cancel_newest',
+    /** The resting order is cancelled and matching continues */
+    CANCEL_OLDEST = 'cancel_oldest',
+    /** Both orders are cancelled */
+    CANCEL_BOTH = 'cancel_both',
+    /** Both orders are reduced by the smaller amount without trading; whichever reaches zero is cancelled */
+    DECREMENT_AND_CANCEL = 'decrement_and_cancel',
+}
+
 export enum OrderStatus {
     OPEN = 'open',
     FILLED = 'filled',
     PARTIALLY_FILLED = 'partially_filled',
     CANCELLED = 'cancelled',
+    EXPIRED = 'expired',
 }
 
+export const DEFAULT_SYMBOL = 'BTC/USD';
+
+const SYMBOL_PATTERN = /^[A-Z0-9]+\/[A-Z0-9]+$/;
+
 export class OrderError extends Error {
     constructor(message: string, public readonly code: string) {
         super(message);
@@ -21,23 +72,86 @@ export class OrderError extends Error {
 
 export interface OrderData {
     id?: string;
+    symbol?: string;
     type: OrderType;
-    price: number;
+    kind?: OrderKind;
+    /** Integer ticks of the market's price precision; omitted for market orders */
+    price?: number;
+    /** Integer lots of the market's amount precision */
     amount: number;
     clientId: string;
+    /** Chosen by the client; resubmitting the same one within the book's retention window returns the first result */
+    clientOrderId?: string;
     originalAmount?: number;
     timestamp?: number;
     status?: OrderStatus;
+    /** Stop orders only: last trade price that activates the order */
+    stopPrice?: number;
+    /** Market orders only: the worst price the order may execute at */
+    worstPrice?: number;
+    /** Market orders only: maximum distance from the best opposite price, in basis points */
+    maxSlippageBps?: number;
+    /** Defaults to GTC for limit orders and IOC for market orders */
+    timeInForce?: TimeInForce;
+    /** GTD orders only: epoch milliseconds after which the order expires */
+    expiresAt?: number;
+    /** Maker-only: the order is rejected if it would match on arrival */
+    postOnly?: boolean;
+    /** Post-only orders only: reprice one tick away from the opposite side instead of rejecting */
+    repriceOnCross?: boolean;
+    /** Iceberg orders only: size of each visible slice, the rest is held in reserve */
+    displayAmount?: number;
+    /** Iceberg orders only: what is left of the current slice, restored from snapshots */
+    visibleAmount?: number;
+    /** Pegged limit orders only: the price is set by the order book from the top of book */
+    pegType?: PegType;
+    /** Pegged orders only: signed number of ticks added to the reference price */
+    pegOffset?: number;
+    /** Pegged orders only: the highest price a buy, or lowest price a sell, may be pegged to */
+    pegLimit?: number;
+    /** One-cancels-other group: the first fill, trigger, cancellation or expiry of a member cancels the rest */
+    groupId?: string;
+    /** Overrides the order book's self-trade prevention mode when this order is the aggressor */
+    selfTradePrevention?: SelfTradePrevention;
+    /** Incremented on every change; restored from snapshots so peers can detect conflicting amendments */
+    version?: number;
 }
 
+/**
+ * Changes to a resting order. The amount is the new open quantity, not the new total.
+ */
+export interface OrderAmendment {
+    price?: number;
+    amount?: number;
+}
+
+const MAX_SLIPPAGE_BPS = 10000;
+
 export class Order {
     public readonly id: string;
+    public readonly symbol: string;
     public readonly type: OrderType;
-    public readonly price: number;
-    public readonly originalAmount: number;
-    public readonly timestamp: number;
     public readonly clientId: string;
+    public readonly clientOrderId?: string;
+    public readonly stopPrice?: number;
+    public readonly worstPrice?: number;
+    public readonly maxSlippageBps?: number;
+    public readonly timeInForce: TimeInForce;
+    public readonly expiresAt?: number;
+    public readonly postOnly: boolean;
+    public readonly repriceOnCross: boolean;
+    public readonly displayAmount?: number;
+    public readonly selfTradePrevention?: SelfTradePrevention;
+    public readonly groupId?: string;
+    public readonly pegType?: PegType;
+    public readonly pegOffset?: number;
+    public readonly pegLimit?: number;
+    private _kind: OrderKind;
+    private _price: number;
     private _amount: number;
+    private _originalAmount: number;
+    private _visibleAmount: number;
+    private _timestamp: number;
     private _status: OrderStatus;
     private _version: number;
 
@@ -45,32 +159,208 @@ export class Order {
         this.validateInputs(data);
 
         this.id = data.id || uuidv4();
+        this.symbol = data.symbol || DEFAULT_SYMBOL;
         this.type = data.type;
-        this.price = data.price;
+        this._kind = data.kind || OrderKind.LIMIT;
+        this._price = data.price || 0;
         this._amount = data.amount;
-        this.originalAmount = data.originalAmount || data.amount;
-        this.timestamp = data.timestamp || Date.now();
+        this._originalAmount = data.originalAmount || data.amount;
+        this._timestamp = data.timestamp || Date.now();
         this._status = data.status || OrderStatus.OPEN;
         this.clientId = data.clientId;
-        this._version = 1;
+        this.clientOrderId = data.clientOrderId;
+        this.stopPrice = data.stopPrice;
+        this.worstPrice = data.worstPrice;
+        this.maxSlippageBps = data.maxSlippageBps;
+        this.timeInForce = data.timeInForce || (Order.isMarketKind(this._kind) ? TimeInForce.IOC : TimeInForce.GTC);
+        this.expiresAt = data.expiresAt;
+        this.postOnly = data.postOnly || false;
+        this.repriceOnCross = data.repriceOnCross || false;
+        this.displayAmount = data.displayAmount;
+        this._visibleAmount = data.displayAmount === undefined
+            ? data.amount
+            : Math.min(data.visibleAmount ?? data.displayAmount, data.amount);
+        this.selfTradePrevention = data.selfTradePrevention;
+        this.groupId = data.groupId;
+        this.pegType = data.pegType;
+        this.pegOffset = data.pegType === undefined ? undefined : data.pegOffset || 0;
+        this.pegLimit = data.pegLimit;
+        this._version = data.version || 1;
+    }
+
+    public get kind(): OrderKind {
+        return this._kind;
+    }
+
+    public get price(): number {
+        return this._price;
     }
 
     public get amount(): number {
         return this._amount;
     }
 
+    /**
+     * The part of the order shown in snapshots and available to the next match; all of it unless this is an iceberg
+     */
+    public get visibleAmount(): number {
+        return this.displayAmount === undefined ? this._amount : this._visibleAmount;
+    }
+
+    public get hiddenAmount(): number {
+        return this._amount - this.visibleAmount;
+    }
+
+    public get originalAmount(): number {
+        return this._originalAmount;
+    }
+
+    public get version(): number {
+        return this._version;
+    }
+
+    public get timestamp(): number {
+        return this._timestamp;
+    }
+
     public get status(): OrderStatus {
         return this._status;
     }
 
+    public isPegged(): boolean {
+        return this.pegType !== undefined;
+    }
+
+    public isIceberg(): boolean {
+        return this.displayAmount !== undefined;
+    }
+
+    public needsReplenish(): boolean {
+        return this.isIceberg() && this.isActive() && this._visibleAmount === 0 && this._amount > 0;
+    }
+
+    /**
+     * Shows the next slice from the hidden reserve; the new timestamp gives up time priority
+     */
+    public replenish(timestamp: number): void {
+        if (!this.needsReplenish() || this.displayAmount === undefined) {
+            throw new OrderError(`Order ${this.id} has no slice to replenish`, 'NOTHING_TO_REPLENISH');
+        }
+        this._visibleAmount = Math.min(this.displayAmount, this._amount);
+        this._timestamp = timestamp;
+        this._version++;
+    }
+
     public updateAfterMatch(filledAmount: number): void {
         this.validateFilledAmount(filledAmount);
 
         this._amount -= filledAmount;
+        this._visibleAmount = Math.max(0, this._visibleAmount - filledAmount);
         this._version++;
         this.updateStatus();
     }
 
+    /**
+     * Turns a stop into the market order, or a stop-limit into the limit order, it was waiting to become
+     */
+    public trigger(): void {
+        if (!this.isStopOrder()) {
+            throw new OrderError(`Order ${this.id} is not a stop order`, 'INVALID_KIND');
+        }
+        this._kind = this._kind === OrderKind.STOP ? OrderKind.MARKET : OrderKind.LIMIT;
+        this._version++;
+    }
+
+    public isTriggeredBy(lastTradePrice: number): boolean {
+        if (!this.isStopOrder() || this.stopPrice === undefined) {
+            return false;
+        }
+
+        return this.type === OrderType.BUY ? lastTradePrice >= this.stopPrice : lastTradePrice <= this.stopPrice;
+    }
+
+    public reprice(price: number): void {
+        if (this.kind !== OrderKind.LIMIT) {
+            throw new OrderError('Only limit orders can be repriced', 'INVALID_KIND');
+        }
+        if (!Number.isSafeInteger(price) || price <= 0) {
+            throw new OrderError(`Invalid price: ${price}`, 'INVALID_PRICE');
+        }
+        this._price = price;
+        this._version++;
+    }
+
+    /**
+     * Applies an amendment. Reducing the amount keeps time priority; a new price or a larger amount
+     * takes the given timestamp and so goes to the back of the queue. Returns whether priority was lost.
+     */
+    public amend(changes: OrderAmendment, timestamp: number): boolean {
+        if (!this.isActive()) {
+            throw new OrderError(`Cannot amend order with status ${this._status}`, 'ORDER_NOT_ACTIVE');
+        }
+        if (this._kind !== OrderKind.LIMIT) {
+            throw new OrderError('Only limit orders can be amended', 'INVALID_KIND');
+        }
+        if (changes.price !== undefined && (!Number.isSafeInteger(changes.price) || changes.price <= 0)) {
+            throw new OrderError(`Invalid price: ${changes.price}`, 'INVALID_PRICE');
+        }
+        if (changes.price !== undefined && this.isPegged()) {
+            throw new OrderError('The price of a pegged order is set by the order book', 'INVALID_PRICE');
+        }
+        if (changes.amount !== undefined && (!Number.isSafeInteger(changes.amount) || changes.amount <= 0)) {
+            throw new OrderError(`Invalid amount: ${changes.amount}`, 'INVALID_AMOUNT');
+        }
+        if (!Number.isSafeInteger(timestamp) || timestamp <= 0) {
+            throw new OrderError(`Invalid timestamp: ${timestamp}`, 'INVALID_TIMESTAMP');
+        }
+
+        const priceChanged = changes.price !== undefined && changes.price !== this._price;
+        const amountIncreased = changes.amount !== undefined && changes.amount > this._amount;
+
+        if (changes.price !== undefined) {
+            this._price = changes.price;
+        }
+        if (changes.amount !== undefined) {
+            const filledAmount = this._originalAmount - this._amount;
+            this._amount = changes.amount;
+            this._originalAmount = filledAmount + changes.amount;
+            this._visibleAmount = this.displayAmount === undefined || this._visibleAmount === 0
+                ? Math.min(this.displayAmount ?? changes.amount, changes.amount)
+                : Math.min(this._visibleAmount, changes.amount);
+        }
+
+        const losesPriority = priceChanged || amountIncreased;
+        if (losesPriority) {
+            this._timestamp = timestamp;
+        }
+        this._version++;
+
+        return losesPriority;
+    }
+
+    /**
+     * Removes open quantity without trading it, as self-trade prevention does. The filled part is kept
+     * and the order is cancelled once nothing is left open.
+     */
+    public decrement(amount: number): void {
+        if (!this.isActive()) {
+            throw new OrderError(`Cannot decrement order with status ${this._status}`, 'ORDER_NOT_ACTIVE');
+        }
+        if (!Number.isSafeInteger(amount) || amount <= 0 || amount > this._amount) {
+            throw new OrderError(`Invalid decrement amount: ${amount}`, 'INVALID_AMOUNT');
+        }
+
+        if (amount === this._amount) {
+            this.cancel();
+            return;
+        }
+
+        this._amount -= amount;
+        this._originalAmount -= amount;
+        this._visibleAmount = Math.min(this._visibleAmount, this._amount);
+        this._version++;
+    }
+
     public cancel(): void {
         if (this._status === OrderStatus.FILLED) {
             throw new OrderError('Cannot cancel a filled order', 'ORDER_FILLED');
@@ -79,8 +369,28 @@ export class Order {
         this._version++;
     }
 
+    public expire(): void {
+        if (!this.isActive()) {
+            throw new OrderError(`Cannot expire order with status ${this._status}`, 'ORDER_NOT_ACTIVE');
+        }
+        this._status = OrderStatus.EXPIRED;
+        this._version++;
+    }
+
+    public isExpired(now: number): boolean {
+        return this.expiresAt !== undefined && this.expiresAt <= now;
+    }
+
+    /**
+     * Whether an unfilled remainder of this order may stay on the book after matching
+     */
+    public canRest(): boolean {
+        return this.kind === OrderKind.LIMIT &&
+            (this.timeInForce === TimeInForce.GTC || this.timeInForce === TimeInForce.GTD);
+    }
+
     public canMatchWith(order: Order): boolean {
-        if (this.type === order.type) {
+        if (this.type === order.type || this.symbol !== order.symbol) {
             return false;
         }
 
@@ -88,6 +398,22 @@ export class Order {
             return false;
         }
 
+        if (this.isStopOrder() || order.isStopOrder()) {
+            return false;
+        }
+
+        if (this.kind === OrderKind.MARKET && order.kind === OrderKind.MARKET) {
+            return false;
+        }
+
+        if (this.kind === OrderKind.MARKET) {
+            return this.acceptsPrice(order.price);
+        }
+
+        if (order.kind === OrderKind.MARKET) {
+            return order.acceptsPrice(this.price);
+        }
+
         if (this.type === OrderType.BUY) {
             return this.price >= order.price;
         }
@@ -95,34 +421,52 @@ export class Order {
         return this.price <= order.price;
     }
 
+    /**
+     * Whether this order may execute at the given price: its limit for limit orders,
+     * its worst price (if any) for market orders
+     */
+    public acceptsPrice(price: number): boolean {
+        const limit = Order.isMarketKind(this.kind) ? this.worstPrice : this.price;
+        if (limit === undefined) {
+            return true;
+        }
+
+        return this.type === OrderType.BUY ? price <= limit : price >= limit;
+    }
+
+    public isMarketOrder(): boolean {
+        return this.kind === OrderKind.MARKET;
+    }
+
+    public isStopOrder(): boolean {
+        return this.kind === OrderKind.STOP || this.kind === OrderKind.STOP_LIMIT;
+    }
+
     public isActive(): boolean {
         return this._status === OrderStatus.OPEN || this._status === OrderStatus.PARTIALLY_FILLED;
     }
 
     public clone(): Order {
-        return new Order({
-            id: this.id,
-            type: this.type,
-            price: this.price,
-            amount: this._amount,
-            clientId: this.clientId,
-            originalAmount: this.originalAmount,
-            timestamp: this.timestamp,
-            status: this._status,
-        });
+        return new Order(this.toOrderData());
     }
 
     public toJSON(): Record<string, unknown> {
+        return {...this.toOrderData()};
+    }
+
+    /**
+     * Serialization for consumers outside the network: icebergs only reveal their current slice
+     */
+    public toPublicJSON(): Record<string, unknown> {
+        const json = this.toJSON();
+        if (!this.isIceberg()) {
+            return json;
+        }
+
+        const {displayAmount: _displayAmount, visibleAmount: _visibleAmount, originalAmount: _originalAmount, ...visible} = json;
         return {
-            id: this.id,
-            type: this.type,
-            price: this.price,
-            amount: this.amount,
-            clientId: this.clientId,
-            originalAmount: this.originalAmount,
-            timestamp: this.timestamp,
-            status: this.status,
-            version: this._version
+            ...visible,
+            amount: this.visibleAmount
         };
     }
 
@@ -146,6 +490,17 @@ export class Order {
                 return false;
             }
 
+            if ('kind' in data && !Object.values(OrderKind).includes(data.kind as OrderKind)) {
+                console.warn(`Invalid order kind: ${String(data.kind)}`);
+                return false;
+            }
+            const isMarketOrder = Order.isMarketKind(data.kind as OrderKind);
+
+            if ('symbol' in data && !Order.isValidSymbol(data.symbol)) {
+                console.warn(`Invalid order symbol: ${String(data.symbol)}`);
+                return false;
+            }
+
             const isFilledOrder = data.status === OrderStatus.FILLED;
             if (isFilledOrder) {
                 if (!('amount' in data)) {
@@ -154,7 +509,7 @@ export class Order {
                 }
 
                 const amount = Number(data.amount);
-                if (isNaN(amount) || amount < 0) {
+                if (!Number.isSafeInteger(amount) || amount < 0) {
                     console.warn(`Invalid amount for filled order: ${amount}`);
                     return false;
                 }
@@ -165,7 +520,7 @@ export class Order {
                 }
 
                 const originalAmount = Number(data.originalAmount);
-                if (isNaN(originalAmount) || originalAmount <= 0) {
+                if (!Number.isSafeInteger(originalAmount) || originalAmount <= 0) {
                     console.warn(`Invalid originalAmount for filled order: ${originalAmount}`);
                     return false;
                 }
@@ -176,21 +531,23 @@ export class Order {
                 }
 
                 const amount = Number(data.amount);
-                if (isNaN(amount) || amount <= 0) {
+                if (!Number.isSafeInteger(amount) || amount <= 0) {
                     console.warn(`Invalid amount: ${amount}`);
                     return false;
                 }
             }
 
-            if (!('price' in data)) {
-                console.warn('Invalid order data: missing price field');
-                return false;
-            }
+            if (!isMarketOrder && !data.pegType) {
+                if (!('price' in data)) {
+                    console.warn('Invalid order data: missing price field');
+                    return false;
+                }
 
-            const price = Number(data.price);
-            if (isNaN(price) || price <= 0) {
-                console.warn(`Invalid price: ${price}`);
-                return false;
+                const price = Number(data.price);
+                if (!Number.isSafeInteger(price) || price <= 0) {
+                    console.warn(`Invalid price: ${price}`);
+                    return false;
+                }
             }
 
             if ('status' in data) {
@@ -208,6 +565,17 @@ export class Order {
         }
     }
 
+    public static isValidSymbol(symbol: unknown): symbol is string {
+        return typeof symbol === 'string' && SYMBOL_PATTERN.test(symbol);
+    }
+
+    /**
+     * Market and stop orders execute without a limit price of their own
+     */
+    private static isMarketKind(kind: OrderKind | undefined): boolean {
+        return kind === OrderKind.MARKET || kind === OrderKind.STOP;
+    }
+
     public static fromObject(data: Record<string, unknown>): Order {
         try {
             if (!Order.isValidOrderData(data)) {
@@ -217,14 +585,71 @@ export class Order {
 
             const orderData: OrderData = {
                 type: data.type as OrderType,
-                price: Number(data.price),
                 amount: Number(data.amount),
                 clientId: data.clientId as string,
             };
 
+            if (data.kind) {
+                orderData.kind = data.kind as OrderKind;
+            }
+            if (data.price) {
+                orderData.price = Number(data.price);
+            }
+            if (data.stopPrice !== undefined && data.stopPrice !== null) {
+                orderData.stopPrice = Number(data.stopPrice);
+            }
+            if (data.worstPrice !== undefined && data.worstPrice !== null) {
+                orderData.worstPrice = Number(data.worstPrice);
+            }
+            if (data.maxSlippageBps !== undefined && data.maxSlippageBps !== null) {
+                orderData.maxSlippageBps = Number(data.maxSlippageBps);
+            }
+            if (data.timeInForce) {
+                orderData.timeInForce = data.timeInForce as TimeInForce;
+            }
+            if (data.expiresAt !== undefined && data.expiresAt !== null) {
+                orderData.expiresAt = Number(data.expiresAt);
+            }
+            if (data.postOnly) {
+                orderData.postOnly = true;
+            }
+            if (data.repriceOnCross) {
+                orderData.repriceOnCross = true;
+            }
+            if (data.displayAmount !== undefined && data.displayAmount !== null) {
+                orderData.displayAmount = Number(data.displayAmount);
+            }
+            if (data.visibleAmount !== undefined && data.visibleAmount !== null) {
+                orderData.visibleAmount = Number(data.visibleAmount);
+            }
+            if (typeof data.clientOrderId === 'string') {
+                orderData.clientOrderId = data.clientOrderId;
+            }
+            if (data.pegType) {
+                orderData.pegType = data.pegType as PegType;
+            }
+            if (data.pegOffset !== undefined && data.pegOffset !== null) {
+                orderData.pegOffset = Number(data.pegOffset);
+            }
+            if (data.pegLimit !== undefined && data.pegLimit !== null) {
+                orderData.pegLimit = Number(data.pegLimit);
+            }
+            if (typeof data.groupId === 'string') {
+                orderData.groupId = data.groupId;
+            }
+            if (data.selfTradePrevention) {
+                orderData.selfTradePrevention = data.selfTradePrevention as SelfTradePrevention;
+            }
+            if (data.version) {
+                orderData.version = Number(data.version);
+            }
+
             if (data.id) {
                 orderData.id = data.id as string;
             }
+            if (data.symbol) {
+                orderData.symbol = data.symbol as string;
+            }
             if (data.originalAmount) {
                 orderData.originalAmount = Number(data.originalAmount);
             }
@@ -250,6 +675,37 @@ export class Order {
         }
     }
 
+    private toOrderData(): OrderData {
+        return {
+            id: this.id,
+            symbol: this.symbol,
+            type: this.type,
+            kind: this.kind,
+            price: this.price,
+            amount: this._amount,
+            clientId: this.clientId,
+            clientOrderId: this.clientOrderId,
+            originalAmount: this.originalAmount,
+            timestamp: this.timestamp,
+            status: this._status,
+            stopPrice: this.stopPrice,
+            worstPrice: this.worstPrice,
+            maxSlippageBps: this.maxSlippageBps,
+            timeInForce: this.timeInForce,
+            expiresAt: this.expiresAt,
+            postOnly: this.postOnly,
+            repriceOnCross: this.repriceOnCross,
+            displayAmount: this.displayAmount,
+            visibleAmount: this.isIceberg() ? this._visibleAmount : undefined,
+            selfTradePrevention: this.selfTradePrevention,
+            pegType: this.pegType,
+            pegOffset: this.pegOffset,
+            pegLimit: this.pegLimit,
+            groupId: this.groupId,
+            version: this._version,
+        };
+    }
+
     private updateStatus(): void {
         if (this._amount === 0) {
             this._status = OrderStatus.FILLED;
@@ -259,16 +715,31 @@ export class Order {
     }
 
     private validateInputs(data: OrderData): void {
-        if (isNaN(data.price) || data.price <= 0) {
-            throw new OrderError(`Invalid price: ${data.price}`, 'INVALID_PRICE');
+        if (data.kind !== undefined && !Object.values(OrderKind).includes(data.kind)) {
+            throw new OrderError(`Invalid order kind: ${data.kind}`, 'INVALID_KIND');
+        }
+        if (Order.isMarketKind(data.kind)) {
+            this.validateMarketInputs(data);
+        } else if (data.pegType !== undefined) {
+            this.validatePeg(data);
+        } else {
+            if (data.price === undefined || !Number.isSafeInteger(data.price) || data.price <= 0) {
+                throw new OrderError(`Invalid price: ${data.price}`, 'INVALID_PRICE');
+            }
+            if (data.worstPrice !== undefined || data.maxSlippageBps !== undefined) {
+                throw new OrderError('Price protection only applies to market orders', 'INVALID_PRICE_PROTECTION');
+            }
         }
         const isFilledOrder = data.status === OrderStatus.FILLED;
-        if (isNaN(data.amount)) {
+        if (!Number.isSafeInteger(data.amount)) {
             throw new OrderError(`Invalid amount: ${data.amount}`, 'INVALID_AMOUNT');
         }
         if (data.amount < 0 || (!isFilledOrder && data.amount === 0)) {
             throw new OrderError(`Invalid amount: ${data.amount}`, 'INVALID_AMOUNT');
         }
+        if (data.symbol !== undefined && !Order.isValidSymbol(data.symbol)) {
+            throw new OrderError(`Invalid symbol: ${data.symbol}`, 'INVALID_SYMBOL');
+        }
         if (typeof data.clientId !== 'string' || data.clientId.trim() === '') {
             throw new OrderError(`Invalid clientId: ${data.clientId}`, 'INVALID_CLIENT_ID');
         }
@@ -278,10 +749,143 @@ export class Order {
         if (data.status && !Object.values(OrderStatus).includes(data.status)) {
             throw new OrderError(`Invalid status: ${data.status}`, 'INVALID_STATUS');
         }
+        this.validateStopPrice(data);
+        this.validateTimeInForce(data);
+        this.validatePostOnly(data);
+        this.validateDisplayAmount(data);
+        if (data.clientOrderId !== undefined && (typeof data.clientOrderId !== 'string' || data.clientOrderId.trim() === '')) {
+            throw new OrderError(`Invalid client order ID: ${data.clientOrderId}`, 'INVALID_CLIENT_ORDER_ID');
+        }
+        if (data.pegType === undefined && (data.pegOffset !== undefined || data.pegLimit !== undefined)) {
+            throw new OrderError('Peg offset and limit require a peg type', 'INVALID_PEG');
+        }
+        if (data.groupId !== undefined && (typeof data.groupId !== 'string' || data.groupId.trim() === '')) {
+            throw new OrderError(`Invalid group ID: ${data.groupId}`, 'INVALID_GROUP_ID');
+        }
+        if (data.selfTradePrevention !== undefined && !Object.values(SelfTradePrevention).includes(data.selfTradePrevention)) {
+            throw new OrderError(`Invalid self-trade prevention mode: ${data.selfTradePrevention}`, 'INVALID_SELF_TRADE_PREVENTION');
+        }
+        if (data.version !== undefined && (!Number.isSafeInteger(data.version) || data.version <= 0)) {
+            throw new OrderError(`Invalid version: ${data.version}`, 'INVALID_VERSION');
+        }
+        if (data.originalAmount !== undefined && (!Number.isSafeInteger(data.originalAmount) || data.originalAmount < data.amount)) {
+            throw new OrderError(`Invalid original amount: ${data.originalAmount}`, 'INVALID_ORIGINAL_AMOUNT');
+        }
+    }
+
+    /**
+     * A pegged order arrives without a price, or with the price it was last pegged to in a snapshot
+     */
+    private validatePeg(data: OrderData): void {
+        if (!Object.values(PegType).includes(data.pegType as PegType)) {
+            throw new OrderError(`Invalid peg type: ${data.pegType}`, 'INVALID_PEG');
+        }
+        if (data.kind !== undefined && data.kind !== OrderKind.LIMIT) {
+            throw new OrderError(`${data.kind} orders cannot be pegged`, 'INVALID_PEG');
+        }
+        if (data.timeInForce === TimeInForce.IOC || data.timeInForce === TimeInForce.FOK) {
+            throw new OrderError(`Pegged orders cannot be ${data.timeInForce}`, 'INVALID_PEG');
+        }
+        if (data.price !== undefined && (!Number.isSafeInteger(data.price) || data.price < 0)) {
+            throw new OrderError(`Invalid price: ${data.price}`, 'INVALID_PRICE');
+        }
+        if (data.pegOffset !== undefined && !Number.isSafeInteger(data.pegOffset)) {
+            throw new OrderError(`Invalid peg offset: ${data.pegOffset}`, 'INVALID_PEG');
+        }
+        if (data.pegLimit !== undefined && (!Number.isSafeInteger(data.pegLimit) || data.pegLimit <= 0)) {
+            throw new OrderError(`Invalid peg limit: ${data.pegLimit}`, 'INVALID_PEG');
+        }
+        if (data.worstPrice !== undefined || data.maxSlippageBps !== undefined) {
+            throw new OrderError('Price protection only applies to market orders', 'INVALID_PRICE_PROTECTION');
+        }
+    }
+
+    private validateTimeInForce(data: OrderData): void {
+        const {timeInForce, expiresAt} = data;
+        if (timeInForce === undefined) {
+            if (expiresAt !== undefined) {
+                throw new OrderError('Only GTD orders can have an expiry', 'INVALID_EXPIRY');
+            }
+            return;
+        }
+        if (!Object.values(TimeInForce).includes(timeInForce)) {
+            throw new OrderError(`Invalid time in force: ${timeInForce}`, 'INVALID_TIME_IN_FORCE');
+        }
+        if (Order.isMarketKind(data.kind) && timeInForce !== TimeInForce.IOC && timeInForce !== TimeInForce.FOK) {
+            throw new OrderError(`Market orders cannot be ${timeInForce}`, 'INVALID_TIME_IN_FORCE');
+        }
+        if (timeInForce === TimeInForce.GTD) {
+            if (expiresAt === undefined || !Number.isSafeInteger(expiresAt) || expiresAt <= 0) {
+                throw new OrderError(`Invalid expiry: ${expiresAt}`, 'INVALID_EXPIRY');
+            }
+        } else if (expiresAt !== undefined) {
+            throw new OrderError('Only GTD orders can have an expiry', 'INVALID_EXPIRY');
+        }
+    }
+
+    private validateStopPrice(data: OrderData): void {
+        const isStop = data.kind === OrderKind.STOP || data.kind === OrderKind.STOP_LIMIT;
+        if (isStop && data.stopPrice === undefined) {
+            throw new OrderError('Stop orders require a stop price', 'INVALID_STOP_PRICE');
+        }
+        // Triggered stops keep their stop price for reference after becoming market or limit orders
+        if (data.stopPrice !== undefined && (!Number.isSafeInteger(data.stopPrice) || data.stopPrice <= 0)) {
+            throw new OrderError(`Invalid stop price: ${data.stopPrice}`, 'INVALID_STOP_PRICE');
+        }
+    }
+
+    private validatePostOnly(data: OrderData): void {
+        if (data.repriceOnCross && !data.postOnly) {
+            throw new OrderError('Repricing on cross requires a post-only order', 'INVALID_POST_ONLY');
+        }
+        if (!data.postOnly) {
+            return;
+        }
+        if (data.kind !== undefined && data.kind !== OrderKind.LIMIT) {
+            throw new OrderError(`${data.kind} orders cannot be post-only`, 'INVALID_POST_ONLY');
+        }
+        if (data.timeInForce === TimeInForce.IOC || data.timeInForce === TimeInForce.FOK) {
+            throw new OrderError(`Post-only orders cannot be ${data.timeInForce}`, 'INVALID_POST_ONLY');
+        }
+    }
+
+    private validateDisplayAmount(data: OrderData): void {
+        if (data.displayAmount === undefined) {
+            if (data.visibleAmount !== undefined) {
+                throw new OrderError('Only iceberg orders have a visible amount', 'INVALID_DISPLAY_AMOUNT');
+            }
+            return;
+        }
+        if (!Number.isSafeInteger(data.displayAmount) || data.displayAmount <= 0) {
+            throw new OrderError(`Invalid display amount: ${data.displayAmount}`, 'INVALID_DISPLAY_AMOUNT');
+        }
+        if (data.kind !== undefined && data.kind !== OrderKind.LIMIT && data.kind !== OrderKind.STOP_LIMIT) {
+            throw new OrderError(`${data.kind} orders cannot be icebergs`, 'INVALID_DISPLAY_AMOUNT');
+        }
+        if (data.timeInForce === TimeInForce.IOC || data.timeInForce === TimeInForce.FOK) {
+            throw new OrderError(`Iceberg orders cannot be ${data.timeInForce}`, 'INVALID_DISPLAY_AMOUNT');
+        }
+        if (data.visibleAmount !== undefined &&
+            (!Number.isSafeInteger(data.visibleAmount) || data.visibleAmount < 0 || data.visibleAmount > data.displayAmount)) {
+            throw new OrderError(`Invalid visible amount: ${data.visibleAmount}`, 'INVALID_DISPLAY_AMOUNT');
+        }
+    }
+
+    private validateMarketInputs(data: OrderData): void {
+        if (data.price !== undefined && data.price !== 0) {
+            throw new OrderError('Market orders cannot have a price', 'INVALID_PRICE');
+        }
+        if (data.worstPrice !== undefined && (!Number.isSafeInteger(data.worstPrice) || data.worstPrice <= 0)) {
+            throw new OrderError(`Invalid worst price: ${data.worstPrice}`, 'INVALID_PRICE_PROTECTION');
+        }
+        if (data.maxSlippageBps !== undefined &&
+            (!Number.isSafeInteger(data.maxSlippageBps) || data.maxSlippageBps < 0 || data.maxSlippageBps > MAX_SLIPPAGE_BPS)) {
+            throw new OrderError(`Invalid max slippage: ${data.maxSlippageBps}`, 'INVALID_PRICE_PROTECTION');
+        }
     }
 
     private validateFilledAmount(filledAmount: number): void {
-        if (isNaN(filledAmount)) {
+        if (!Number.isSafeInteger(filledAmount)) {
             throw new OrderError(`Invalid filled amount: ${filledAmount}`, 'INVALID_FILLED_AMOUNT');
         }
         if (filledAmount <= 0) {
@@ -1,5 +1,11 @@
-import {Order, OrderStatus, OrderType} from './Order';
+import {Order, OrderData, OrderKind, OrderStatus, OrderType, PegType, SelfTradePrevention, TimeInForce} from './Order';
 import {OrderBook} from './OrderBook';
+import {CancelReason, OrderBookEvent, OrderBookEventType} from './OrderBookEvents';
+import {TradingPhase} from './Auction';
+import {ProRataMatchingPolicy} from './MatchingPolicy';
+import {FeeCurrency, FeeRole} from './FeeEngine';
+import {AccountLedger, FEE_ACCOUNT_ID} from './AccountLedger';
+import {AuditCheck} from './BookAuditor';
 
 describe('OrderBook', () => {
     let orderBook: OrderBook;
@@ -46,25 +52,1299 @@ describe('OrderBook', () => {
             expect(result.matches[0].matchedAmount).toBe(5);
         });
 
+        it('should give a trade the same ID and time on every book that replays its orders', () => {
+            const replay = (book: OrderBook) => [
+                {id: 'sell-1', type: OrderType.SELL, price: 100, amount: 10, clientId: 'seller', timestamp: 1000},
+                {id: 'buy-1', type: OrderType.BUY, price: 100, amount: 4, clientId: 'buyer', timestamp: 1001},
+                {id: 'buy-2', type: OrderType.BUY, price: 100, amount: 4, clientId: 'buyer', timestamp: 1002}
+            ].flatMap(data => book.addOrder(new Order(data)).matches);
+
+            const matches = replay(orderBook);
+
+            expect(matches.map(match => match.timestamp)).toEqual([1001, 1002]);
+            expect(new Set(matches.map(match => match.id)).size).toBe(2);
+            expect(replay(new OrderBook()).map(({id, timestamp}) => ({id, timestamp})))
+                .toEqual(matches.map(({id, timestamp}) => ({id, timestamp})));
+        });
+
         it('should partially match a buy order and add the remainder to the book', () => {
             const sellOrder = new Order({
                 type: OrderType.SELL,
                 price: 100,
                 amount: 5,
-                clientId: 'seller'
+                clientId: 'seller'
+            });
+            orderBook.addOrder(sellOrder);
+
+            const buyOrder = new Order({
+                type: OrderType.BUY,
+                price: 100,
+                amount: 10,
+                clientId: 'buyer'
+            });
+            const result = orderBook.addOrder(buyOrder);
+
+            expect(result.matches).toHaveLength(1);
+            expect(result.matches[0].matchedAmount).toBe(5);
+            expect(result.unfilledAmount).toBe(0);
+        });
+
+        it('should reduce the resting order after a partial fill', () => {
+            const sellOrder = new Order({
+                type: OrderType.SELL,
+                price: 100,
+                amount: 10,
+                clientId: 'seller'
+            });
+            orderBook.addOrder(sellOrder);
+
+            orderBook.addOrder(new Order({
+                type: OrderType.BUY,
+                price: 100,
+                amount: 4,
+                clientId: 'buyer'
+            }));
+
+            const [resting] = orderBook.getState().sellOrders;
+            expect(resting.amount).toBe(6);
+            expect(resting.status).toBe(OrderStatus.PARTIALLY_FILLED);
+        });
+
+        it('should reject an order for a different symbol', () => {
+            const order = new Order({
+                symbol: 'ETH/USD',
+                type: OrderType.BUY,
+                price: 100,
+                amount: 10,
+                clientId
+            });
+
+            expect(() => orderBook.addOrder(order)).toThrow(expect.objectContaining({code: 'SYMBOL_MISMATCH'}));
+        });
+    });
+
+    describe('market orders', () => {
+        const addSell = (price: number, amount: number) => orderBook.addOrder(new Order({
+            type: OrderType.SELL,
+            price,
+            amount,
+            clientId: 'seller'
+        }));
+
+        beforeEach(() => {
+            addSell(100, 2);
+            addSell(101, 2);
+            addSell(110, 2);
+        });
+
+        it('should sweep the opposite side and never rest', () => {
+            const order = new Order({
+                type: OrderType.BUY,
+                kind: OrderKind.MARKET,
+                amount: 5,
+                clientId: 'buyer'
+            });
+
+            const result = orderBook.addOrder(order);
+
+            expect(result.matches.map(m => [m.price, m.matchedAmount])).toEqual([[100, 2], [101, 2], [110, 1]]);
+            expect(result.remainingOrder).toBeNull();
+            expect(result.unfilledAmount).toBe(0);
+            expect(orderBook.getState().sellOrders.map(o => o.amount)).toEqual([1]);
+            expect(orderBook.getState().buyOrders).toHaveLength(0);
+        });
+
+        it('should stop at the worst price and report the unfilled remainder', () => {
+            const order = new Order({
+                type: OrderType.BUY,
+                kind: OrderKind.MARKET,
+                amount: 5,
+                worstPrice: 101,
+                clientId: 'buyer'
+            });
+
+            const result = orderBook.addOrder(order);
+
+            expect(result.matches).toHaveLength(2);
+            expect(result.unfilledAmount).toBe(1);
+            expect(order.status).toBe(OrderStatus.CANCELLED);
+            expect(orderBook.getState().buyOrders).toHaveLength(0);
+        });
+
+        it('should stop once the max slippage from the best price is reached', () => {
+            const order = new Order({
+                type: OrderType.BUY,
+                kind: OrderKind.MARKET,
+                amount: 6,
+                maxSlippageBps: 500,
+                clientId: 'buyer'
+            });
+
+            const result = orderBook.addOrder(order);
+
+            expect(result.matches.map(m => m.price)).toEqual([100, 101]);
+            expect(result.unfilledAmount).toBe(2);
+        });
+
+        it('should cancel the whole order when the book is empty', () => {
+            const order = new Order({
+                type: OrderType.SELL,
+                kind: OrderKind.MARKET,
+                amount: 3,
+                clientId: 'seller'
+            });
+
+            const result = orderBook.addOrder(order);
+
+            expect(result.matches).toHaveLength(0);
+            expect(result.unfilledAmount).toBe(3);
+            expect(order.status).toBe(OrderStatus.CANCELLED);
+        });
+    });
+
+    describe('time in force', () => {
+        beforeEach(() => {
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 100, amount: 3, clientId: 'seller'}));
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 102, amount: 3, clientId: 'seller'}));
+        });
+
+        it('should cancel the remainder of an IOC order after matching', () => {
+            const order = new Order({
+                type: OrderType.BUY,
+                price: 101,
+                amount: 5,
+                timeInForce: TimeInForce.IOC,
+                clientId: 'buyer'
+            });
+
+            const result = orderBook.addOrder(order);
+
+            expect(result.matches).toHaveLength(1);
+            expect(result.unfilledAmount).toBe(2);
+            expect(result.remainingOrder).toBeNull();
+            expect(order.status).toBe(OrderStatus.CANCELLED);
+            expect(orderBook.getState().buyOrders).toHaveLength(0);
+        });
+
+        it('should kill a FOK order that cannot be filled in full without touching the book', () => {
+            const order = new Order({
+                type: OrderType.BUY,
+                price: 101,
+                amount: 5,
+                timeInForce: TimeInForce.FOK,
+                clientId: 'buyer'
+            });
+
+            const result = orderBook.addOrder(order);
+
+            expect(result.matches).toHaveLength(0);
+            expect(result.unfilledAmount).toBe(5);
+            expect(order.status).toBe(OrderStatus.CANCELLED);
+            expect(orderBook.getState().sellOrders.map(o => o.amount)).toEqual([3, 3]);
+        });
+
+        it('should fill a FOK order when enough liquidity is available', () => {
+            const order = new Order({
+                type: OrderType.BUY,
+                price: 102,
+                amount: 5,
+                timeInForce: TimeInForce.FOK,
+                clientId: 'buyer'
+            });
+
+            const result = orderBook.addOrder(order);
+
+            expect(result.matches.map(m => m.matchedAmount)).toEqual([3, 2]);
+            expect(order.status).toBe(OrderStatus.FILLED);
+        });
+
+        it('should expire GTD orders once their expiry has passed', () => {
+            const order = new Order({
+                type: OrderType.BUY,
+                price: 90,
+                amount: 5,
+                timestamp: 1000,
+                timeInForce: TimeInForce.GTD,
+                expiresAt: 2000,
+                clientId: 'buyer'
+            });
+            orderBook.addOrder(order);
+
+            expect(orderBook.expireOrders(1999)).toHaveLength(0);
+            expect(orderBook.expireOrders(2000)).toEqual([order]);
+            expect(order.status).toBe(OrderStatus.EXPIRED);
+            expect(orderBook.findOrderById(order.id)).toBeUndefined();
+        });
+
+        it('should reject a GTD order that expired before submission', () => {
+            const order = new Order({
+                type: OrderType.BUY,
+                price: 90,
+                amount: 5,
+                timestamp: 3000,
+                timeInForce: TimeInForce.GTD,
+                expiresAt: 2000,
+                clientId: 'buyer'
+            });
+
+            expect(() => orderBook.addOrder(order)).toThrow(expect.objectContaining({code: 'ORDER_EXPIRED'}));
+        });
+    });
+
+    describe('post-only orders', () => {
+        beforeEach(() => {
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 100, amount: 3, clientId: 'seller'}));
+            orderBook.addOrder(new Order({type: OrderType.BUY, price: 95, amount: 3, clientId: 'buyer'}));
+        });
+
+        it('should rest a post-only order that does not cross', () => {
+            const order = new Order({type: OrderType.BUY, price: 99, amount: 1, postOnly: true, clientId});
+
+            const result = orderBook.addOrder(order);
+
+            expect(result.matches).toHaveLength(0);
+            expect(result.remainingOrder).toBe(order);
+        });
+
+        it('should reject a post-only order that would take liquidity', () => {
+            const order = new Order({type: OrderType.BUY, price: 100, amount: 1, postOnly: true, clientId});
+
+            expect(() => orderBook.addOrder(order)).toThrow(expect.objectContaining({code: 'POST_ONLY_WOULD_CROSS'}));
+            expect(orderBook.getState().sellOrders[0].amount).toBe(3);
+            expect(orderBook.findOrderById(order.id)).toBeUndefined();
+        });
+
+        it('should reprice one tick away from the opposite side when asked to', () => {
+            const order = new Order({
+                type: OrderType.SELL,
+                price: 90,
+                amount: 1,
+                postOnly: true,
+                repriceOnCross: true,
+                clientId
+            });
+
+            const result = orderBook.addOrder(order);
+
+            expect(result.matches).toHaveLength(0);
+            expect(order.price).toBe(96);
+            expect(orderBook.getState().sellOrders.map(o => o.price)).toEqual([96, 100]);
+        });
+    });
+
+    describe('stop orders', () => {
+        const trade = (price: number) => {
+            orderBook.addOrder(new Order({type: OrderType.SELL, price, amount: 1, clientId: 'seller'}));
+            orderBook.addOrder(new Order({type: OrderType.BUY, price, amount: 1, clientId: 'buyer'}));
+        };
+
+        it('should hold stops in the trigger book, out of the visible book', () => {
+            const stop = new Order({
+                type: OrderType.SELL,
+                kind: OrderKind.STOP,
+                stopPrice: 95,
+                amount: 2,
+                clientId
+            });
+
+            const result = orderBook.addOrder(stop);
+            const state = orderBook.getState();
+
+            expect(result.matches).toHaveLength(0);
+            expect(state.sellOrders).toHaveLength(0);
+            expect(state.stopOrders?.map(o => o.id)).toEqual([stop.id]);
+            expect(orderBook.findOrderById(stop.id)).toBe(stop);
+        });
+
+        it('should convert a stop into a market order when a trade reaches its trigger', () => {
+            orderBook.addOrder(new Order({type: OrderType.BUY, price: 90, amount: 5, clientId: 'bidder'}));
+            const stop = new Order({
+                type: OrderType.SELL,
+                kind: OrderKind.STOP,
+                stopPrice: 95,
+                amount: 2,
+                clientId
+            });
+            orderBook.addOrder(stop);
+
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 96, amount: 1, clientId: 'seller'}));
+            expect(stop.kind).toBe(OrderKind.STOP);
+
+            const result = orderBook.addOrder(new Order({type: OrderType.BUY, price: 95, amount: 1, clientId: 'buyer'}));
+
+            expect(result.matches).toHaveLength(0);
+            expect(orderBook.getState().buyOrders.map(o => o.price)).toEqual([95, 90]);
+
+            const triggering = orderBook.addOrder(new Order({type: OrderType.SELL, price: 95, amount: 1, clientId: 'seller'}));
+
+            expect(triggering.matches[0].price).toBe(95);
+            expect(triggering.triggered).toHaveLength(1);
+            expect(triggering.triggered[0].order).toBe(stop);
+            expect(stop.kind).toBe(OrderKind.MARKET);
+            expect(stop.status).toBe(OrderStatus.FILLED);
+            expect(triggering.triggered[0].matches.map(m => [m.price, m.matchedAmount])).toEqual([[90, 2]]);
+            expect(orderBook.getState().stopOrders).toHaveLength(0);
+        });
+
+        it('should rest a triggered stop-limit at its limit price', () => {
+            const stop = new Order({
+                type: OrderType.BUY,
+                kind: OrderKind.STOP_LIMIT,
+                stopPrice: 105,
+                price: 106,
+                amount: 2,
+                clientId
+            });
+            orderBook.addOrder(stop);
+
+            trade(104);
+            expect(stop.kind).toBe(OrderKind.STOP_LIMIT);
+
+            trade(105);
+            expect(stop.kind).toBe(OrderKind.LIMIT);
+            expect(orderBook.getState().buyOrders.map(o => o.id)).toEqual([stop.id]);
+        });
+
+        it('should activate stops in submission order and cascade', () => {
+            orderBook.addOrder(new Order({type: OrderType.BUY, price: 99, amount: 1, clientId: 'bidder'}));
+            orderBook.addOrder(new Order({type: OrderType.BUY, price: 97, amount: 1, clientId: 'bidder'}));
+            const first = new Order({
+                type: OrderType.SELL,
+                kind: OrderKind.STOP,
+                stopPrice: 100,
+                amount: 1,
+                timestamp: 1,
+                clientId
+            });
+            const cascaded = new Order({
+                type: OrderType.SELL,
+                kind: OrderKind.STOP,
+                stopPrice: 99,
+                amount: 1,
+                timestamp: 2,
+                clientId
+            });
+            orderBook.addOrder(cascaded);
+            orderBook.addOrder(first);
+
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 100, amount: 1, clientId: 'seller'}));
+            const result = orderBook.addOrder(new Order({type: OrderType.BUY, price: 100, amount: 1, clientId: 'buyer'}));
+
+            expect(result.triggered.map(r => r.order.id)).toEqual([first.id, cascaded.id]);
+            expect(result.triggered.map(r => r.matches[0].price)).toEqual([99, 97]);
+            expect(orderBook.getLastTradePrice()).toBe(97);
+        });
+
+        it('should cancel an untriggered stop', () => {
+            const stop = new Order({
+                type: OrderType.SELL,
+                kind: OrderKind.STOP,
+                stopPrice: 95,
+                amount: 2,
+                clientId
+            });
+            orderBook.addOrder(stop);
+
+            expect(orderBook.cancelOrder(stop.id)).toBe(stop);
+            expect(orderBook.getState().stopOrders).toHaveLength(0);
+        });
+    });
+
+    describe('iceberg orders', () => {
+        it('should only expose and match the visible slice, then replenish at the back of the level', () => {
+            const iceberg = new Order({
+                type: OrderType.SELL,
+                price: 100,
+                amount: 10,
+                displayAmount: 3,
+                timestamp: 1000,
+                clientId: 'whale'
+            });
+            const other = new Order({type: OrderType.SELL, price: 100, amount: 2, timestamp: 2000, clientId: 'seller'});
+            orderBook.addOrder(iceberg);
+            orderBook.addOrder(other);
+
+            const result = orderBook.addOrder(new Order({
+                type: OrderType.BUY,
+                price: 100,
+                amount: 6,
+                timestamp: 3000,
+                clientId: 'buyer'
+            }));
+
+            expect(result.matches.map(m => [m.sellOrder.id, m.matchedAmount])).toEqual([
+                [iceberg.id, 3],
+                [other.id, 2],
+                [iceberg.id, 1],
+            ]);
+            expect(iceberg.amount).toBe(6);
+            expect(iceberg.visibleAmount).toBe(2);
+            expect(iceberg.hiddenAmount).toBe(4);
+            expect(iceberg.timestamp).toBe(3000);
+        });
+
+        it('should lose time priority to orders that arrived before the replenish', () => {
+            const iceberg = new Order({
+                type: OrderType.BUY,
+                price: 100,
+                amount: 4,
+                displayAmount: 2,
+                timestamp: 1000,
+                clientId: 'whale'
+            });
+            const later = new Order({type: OrderType.BUY, price: 100, amount: 2, timestamp: 5000, clientId: 'buyer'});
+            orderBook.addOrder(iceberg);
+            orderBook.addOrder(later);
+
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 100, amount: 2, timestamp: 4000, clientId: 'seller'}));
+
+            expect(iceberg.timestamp).toBe(5001);
+            expect(orderBook.getState().buyOrders.map(o => o.id)).toEqual([later.id, iceberg.id]);
+        });
+
+        it('should rest an aggressing iceberg with a fresh visible slice', () => {
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 100, amount: 4, clientId: 'seller'}));
+            const iceberg = new Order({
+                type: OrderType.BUY,
+                price: 100,
+                amount: 10,
+                displayAmount: 3,
+                clientId: 'whale'
+            });
+
+            const result = orderBook.addOrder(iceberg);
+
+            expect(result.matches[0].matchedAmount).toBe(4);
+            expect(iceberg.amount).toBe(6);
+            expect(iceberg.visibleAmount).toBe(3);
+        });
+    });
+
+    describe('amendOrder', () => {
+        let first: Order;
+        let second: Order;
+
+        beforeEach(() => {
+            first = new Order({type: OrderType.BUY, price: 100, amount: 5, timestamp: 1000, clientId: 'first'});
+            second = new Order({type: OrderType.BUY, price: 100, amount: 5, timestamp: 2000, clientId: 'second'});
+            orderBook.addOrder(first);
+            orderBook.addOrder(second);
+        });
+
+        it('should keep queue priority when only the amount is reduced', () => {
+            orderBook.amendOrder(first.id, {amount: 3}, 3000);
+
+            expect(first.amount).toBe(3);
+            expect(first.timestamp).toBe(1000);
+            expect(first.version).toBe(2);
+            expect(orderBook.getState().buyOrders.map(o => o.id)).toEqual([first.id, second.id]);
+        });
+
+        it('should lose queue priority when the amount is increased or the price changes', () => {
+            orderBook.amendOrder(first.id, {amount: 8}, 3000);
+
+            expect(orderBook.getState().buyOrders.map(o => o.id)).toEqual([second.id, first.id]);
+
+            orderBook.amendOrder(second.id, {price: 101}, 4000);
+
+            expect(second.timestamp).toBe(4000);
+            expect(orderBook.getState().buyOrders.map(o => o.id)).toEqual([second.id, first.id]);
+        });
+
+        it('should match immediately when the new price crosses the spread', () => {
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 102, amount: 2, timestamp: 2500, clientId: 'seller'}));
+
+            const result = orderBook.amendOrder(second.id, {price: 102}, 3000);
+
+            expect(result.matches).toHaveLength(1);
+            expect(result.matches[0]).toMatchObject({matchedAmount: 2, price: 102});
+            expect(second.amount).toBe(3);
+            expect(second.status).toBe(OrderStatus.PARTIALLY_FILLED);
+        });
+
+        it('should keep the filled part when the open amount is amended', () => {
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 100, amount: 2, timestamp: 2500, clientId: 'seller'}));
+
+            orderBook.amendOrder(first.id, {amount: 1}, 3000);
+
+            expect(first.amount).toBe(1);
+            expect(first.originalAmount).toBe(3);
+        });
+
+        it('should reject an amendment made against a stale version', () => {
+            orderBook.amendOrder(first.id, {amount: 4}, 3000, 1);
+
+            expect(() => orderBook.amendOrder(first.id, {amount: 2}, 4000, 1))
+                .toThrow(expect.objectContaining({code: 'VERSION_CONFLICT'}));
+            expect(first.amount).toBe(4);
+        });
+
+        it('should reject post-only amendments that would cross', () => {
+            const maker = new Order({
+                type: OrderType.SELL,
+                price: 105,
+                amount: 1,
+                postOnly: true,
+                clientId: 'maker'
+            });
+            orderBook.addOrder(maker);
+
+            expect(() => orderBook.amendOrder(maker.id, {price: 100}, 3000))
+                .toThrow(expect.objectContaining({code: 'POST_ONLY_WOULD_CROSS'}));
+            expect(maker.price).toBe(105);
+            expect(orderBook.findOrderById(maker.id)).toBe(maker);
+        });
+
+        it('should reject amendments to unknown orders', () => {
+            expect(() => orderBook.amendOrder('missing', {amount: 1}))
+                .toThrow(expect.objectContaining({code: 'ORDER_NOT_FOUND'}));
+        });
+    });
+
+    describe('self-trade prevention', () => {
+        const addResting = (book: OrderBook, clientIdOfOrder: string, amount: number, timestamp: number): Order => {
+            const order = new Order({type: OrderType.SELL, price: 100, amount, timestamp, clientId: clientIdOfOrder});
+            book.addOrder(order);
+            return order;
+        };
+
+        it('should allow self-trades when no mode is configured', () => {
+            addResting(orderBook, 'trader', 5, 1000);
+
+            const result = orderBook.addOrder(new Order({type: OrderType.BUY, price: 100, amount: 5, clientId: 'trader'}));
+
+            expect(result.matches).toHaveLength(1);
+            expect(result.selfTradeCancellations).toEqual([]);
+        });
+
+        it('should cancel the incoming order with cancel newest', () => {
+            const book = new OrderBook(undefined, {selfTradePrevention: SelfTradePrevention.CANCEL_NEWEST});
+            const other = addResting(book, 'other', 2, 1000);
+            const own = addResting(book, 'trader', 5, 2000);
+            const incoming = new Order({type: OrderType.BUY, price: 100, amount: 6, timestamp: 3000, clientId: 'trader'});
+
+            const result = book.addOrder(incoming);
+
+            expect(result.matches.map(m => m.sellOrder.id)).toEqual([other.id]);
+            expect(result.selfTradeCancellations).toEqual([{order: incoming, amount: 4}]);
+            expect(result.unfilledAmount).toBe(4);
+            expect(result.remainingOrder).toBeNull();
+            expect(incoming.status).toBe(OrderStatus.CANCELLED);
+            expect(book.findOrderById(own.id)).toBe(own);
+        });
+
+        it('should cancel the resting order and keep matching with cancel oldest', () => {
+            const book = new OrderBook(undefined, {selfTradePrevention: SelfTradePrevention.CANCEL_OLDEST});
+            const own = addResting(book, 'trader', 5, 1000);
+            const other = addResting(book, 'other', 5, 2000);
+
+            const result = book.addOrder(new Order({type: OrderType.BUY, price: 100, amount: 3, clientId: 'trader'}));
+
+            expect(result.selfTradeCancellations).toEqual([{order: own, amount: 5}]);
+            expect(result.matches.map(m => [m.sellOrder.id, m.matchedAmount])).toEqual([[other.id, 3]]);
+            expect(book.findOrderById(own.id)).toBeUndefined();
+        });
+
+        it('should cancel both orders with cancel both', () => {
+            const book = new OrderBook(undefined, {selfTradePrevention: SelfTradePrevention.CANCEL_BOTH});
+            const own = addResting(book, 'trader', 5, 1000);
+            const incoming = new Order({type: OrderType.BUY, price: 100, amount: 3, clientId: 'trader'});
+
+            const result = book.addOrder(incoming);
+
+            expect(result.selfTradeCancellations.map(c => c.order)).toEqual([incoming, own]);
+            expect(result.matches).toHaveLength(0);
+            expect(book.getState().sellOrders).toHaveLength(0);
+        });
+
+        it('should reduce both orders by the smaller amount with decrement and cancel', () => {
+            const book = new OrderBook(undefined, {selfTradePrevention: SelfTradePrevention.DECREMENT_AND_CANCEL});
+            const own = addResting(book, 'trader', 5, 1000);
+            const incoming = new Order({type: OrderType.BUY, price: 100, amount: 3, clientId: 'trader'});
+
+            const result = book.addOrder(incoming);
+
+            expect(result.selfTradeCancellations).toEqual([{order: incoming, amount: 3}, {order: own, amount: 3}]);
+            expect(incoming.status).toBe(OrderStatus.CANCELLED);
+            expect(own.amount).toBe(2);
+            expect(own.originalAmount).toBe(2);
+            expect(book.findOrderById(own.id)).toBe(own);
+        });
+
+        it('should let the incoming order override the book default', () => {
+            const book = new OrderBook(undefined, {selfTradePrevention: SelfTradePrevention.CANCEL_NEWEST});
+            const own = addResting(book, 'trader', 5, 1000);
+
+            const result = book.addOrder(new Order({
+                type: OrderType.BUY,
+                price: 100,
+                amount: 3,
+                selfTradePrevention: SelfTradePrevention.CANCEL_OLDEST,
+                clientId: 'trader'
+            }));
+
+            expect(result.selfTradeCancellations).toEqual([{order: own, amount: 5}]);
+            expect(result.remainingOrder?.amount).toBe(3);
+        });
+
+        it('should not count own liquidity towards a fill-or-kill', () => {
+            const book = new OrderBook(undefined, {selfTradePrevention: SelfTradePrevention.CANCEL_NEWEST});
+            addResting(book, 'trader', 5, 1000);
+
+            const result = book.addOrder(new Order({
+                type: OrderType.BUY,
+                price: 100,
+                amount: 3,
+                timeInForce: TimeInForce.FOK,
+                clientId: 'trader'
+            }));
+
+            expect(result.matches).toHaveLength(0);
+            expect(result.unfilledAmount).toBe(3);
+        });
+    });
+
+    describe('one-cancels-other groups', () => {
+        let takeProfit: Order;
+        let stopLoss: Order;
+
+        beforeEach(() => {
+            takeProfit = new Order({type: OrderType.SELL, price: 110, amount: 5, groupId: 'oco-1', clientId: 'trader'});
+            stopLoss = new Order({
+                type: OrderType.SELL,
+                kind: OrderKind.STOP,
+                amount: 5,
+                stopPrice: 90,
+                groupId: 'oco-1',
+                clientId: 'trader'
             });
-            orderBook.addOrder(sellOrder);
+            orderBook.addOrder(takeProfit);
+            orderBook.addOrder(stopLoss);
+        });
 
-            const buyOrder = new Order({
+        it('should cancel the stop when the take-profit fills', () => {
+            const result = orderBook.addOrder(new Order({type: OrderType.BUY, price: 110, amount: 2, clientId: 'buyer'}));
+
+            expect(result.groupCancellations).toEqual([stopLoss]);
+            expect(stopLoss.status).toBe(OrderStatus.CANCELLED);
+            expect(orderBook.findOrderById(stopLoss.id)).toBeUndefined();
+            expect(orderBook.findOrderById(takeProfit.id)).toBe(takeProfit);
+        });
+
+        it('should cancel the take-profit when the stop triggers', () => {
+            orderBook.addOrder(new Order({type: OrderType.BUY, price: 89, amount: 10, timestamp: 1000, clientId: 'buyer'}));
+
+            const result = orderBook.addOrder(new Order({type: OrderType.SELL, price: 89, amount: 1, clientId: 'seller'}));
+
+            expect(result.triggered).toHaveLength(1);
+            expect(result.triggered[0].groupCancellations).toEqual([takeProfit]);
+            expect(result.triggered[0].matches[0].matchedAmount).toBe(5);
+            expect(takeProfit.status).toBe(OrderStatus.CANCELLED);
+        });
+
+        it('should cancel the siblings of a cancelled member and reject late members', () => {
+            orderBook.cancelOrder(takeProfit.id);
+
+            expect(stopLoss.status).toBe(OrderStatus.CANCELLED);
+            expect(orderBook.getState().closedGroupIds).toEqual(['oco-1']);
+            expect(() => orderBook.addOrder(new Order({
+                type: OrderType.SELL,
+                price: 120,
+                amount: 5,
+                groupId: 'oco-1',
+                clientId: 'trader'
+            }))).toThrow(expect.objectContaining({code: 'ORDER_GROUP_CLOSED'}));
+        });
+
+        it('should cancel a whole group at once', () => {
+            const canceled = orderBook.cancelGroup('oco-1');
+
+            expect(canceled).toEqual([takeProfit, stopLoss]);
+            expect(orderBook.getState().sellOrders).toHaveLength(0);
+            expect(orderBook.getState().stopOrders).toHaveLength(0);
+        });
+    });
+
+    describe('pegged orders', () => {
+        beforeEach(() => {
+            orderBook.addOrder(new Order({type: OrderType.BUY, price: 98, amount: 5, clientId: 'bidder'}));
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 104, amount: 5, clientId: 'asker'}));
+        });
+
+        it('should price primary, market and mid pegs from the top of book', () => {
+            const primary = new Order({type: OrderType.BUY, pegType: PegType.PRIMARY, pegOffset: 1, amount: 1, clientId});
+            const market = new Order({type: OrderType.SELL, pegType: PegType.MARKET, pegOffset: 2, amount: 1, clientId});
+            const mid = new Order({type: OrderType.SELL, pegType: PegType.MID, amount: 1, clientId: 'other'});
+
+            orderBook.addOrder(primary);
+            orderBook.addOrder(market);
+            orderBook.addOrder(mid);
+
+            expect(primary.price).toBe(99);
+            expect(market.price).toBe(100);
+            expect(mid.price).toBe(101);
+        });
+
+        it('should follow the top of book as it moves and keep the book sorted', () => {
+            const pegged = new Order({type: OrderType.BUY, pegType: PegType.PRIMARY, amount: 1, timestamp: 1, clientId});
+            orderBook.addOrder(pegged);
+
+            orderBook.addOrder(new Order({type: OrderType.BUY, price: 101, amount: 1, timestamp: 2, clientId: 'bidder'}));
+
+            expect(pegged.price).toBe(101);
+            expect(orderBook.getState().buyOrders.map(o => o.price)).toEqual([101, 101, 98]);
+            expect(orderBook.getState().buyOrders[0].id).toBe(pegged.id);
+        });
+
+        it('should respect the peg limit and never cross the opposite side', () => {
+            const capped = new Order({type: OrderType.BUY, pegType: PegType.PRIMARY, pegOffset: 3, pegLimit: 100, amount: 1, clientId});
+            const aggressive = new Order({type: OrderType.BUY, pegType: PegType.MARKET, amount: 1, clientId});
+
+            const result = orderBook.addOrder(capped);
+            orderBook.addOrder(aggressive);
+
+            expect(result.matches).toHaveLength(0);
+            expect(capped.price).toBe(100);
+            expect(aggressive.price).toBe(103);
+        });
+
+        it('should keep its last price when the reference side empties', () => {
+            const pegged = new Order({
+                type: OrderType.SELL,
+                pegType: PegType.PRIMARY,
+                amount: 1,
+                timestamp: Date.now() + 60000,
+                clientId
+            });
+            orderBook.addOrder(pegged);
+
+            orderBook.addOrder(new Order({type: OrderType.BUY, price: 104, amount: 5, clientId: 'taker'}));
+
+            expect(pegged.price).toBe(104);
+            expect(pegged.status).toBe(OrderStatus.OPEN);
+        });
+
+        it('should reject a pegged order with nothing to peg to', () => {
+            const book = new OrderBook();
+
+            expect(() => book.addOrder(new Order({type: OrderType.BUY, pegType: PegType.MID, amount: 1, clientId})))
+                .toThrow(expect.objectContaining({code: 'PEG_REFERENCE_UNAVAILABLE'}));
+        });
+    });
+
+    describe('client order IDs', () => {
+        it('should return the original result when a client order ID is replayed', () => {
+            const order = new Order({type: OrderType.BUY, price: 100, amount: 5, clientOrderId: 'bot-1', clientId});
+            const first = orderBook.addOrder(order);
+
+            const replay = orderBook.addOrder(Order.fromObject(order.toJSON()));
+            const regenerated = orderBook.addOrder(new Order({
                 type: OrderType.BUY,
                 price: 100,
-                amount: 10,
-                clientId: 'buyer'
+                amount: 5,
+                clientOrderId: 'bot-1',
+                clientId
+            }));
+
+            expect(replay).toBe(first);
+            expect(regenerated).toBe(first);
+            expect(orderBook.getState().buyOrders).toHaveLength(1);
+        });
+
+        it('should scope client order IDs to the client', () => {
+            orderBook.addOrder(new Order({type: OrderType.BUY, price: 100, amount: 5, clientOrderId: 'bot-1', clientId: 'a'}));
+            orderBook.addOrder(new Order({type: OrderType.BUY, price: 100, amount: 5, clientOrderId: 'bot-1', clientId: 'b'}));
+
+            expect(orderBook.getState().buyOrders).toHaveLength(2);
+        });
+
+        it('should forget client order IDs after the retention window', () => {
+            const book = new OrderBook(undefined, {clientOrderIdRetentionMs: 1000});
+            const first = book.addOrder(new Order({
+                type: OrderType.BUY,
+                price: 100,
+                amount: 5,
+                clientOrderId: 'bot-1',
+                timestamp: 1000,
+                clientId
+            }));
+
+            const later = book.addOrder(new Order({
+                type: OrderType.BUY,
+                price: 100,
+                amount: 5,
+                clientOrderId: 'bot-1',
+                timestamp: 2001,
+                clientId
+            }));
+
+            expect(later).not.toBe(first);
+            expect(book.getState().buyOrders).toHaveLength(2);
+        });
+
+        it('should time an order submitted after a newer one by the newer one and still forget it', () => {
+            const book = new OrderBook(undefined, {clientOrderIdRetentionMs: 1000});
+            const submit = (clientOrderId: string, timestamp: number) =>
+                book.addOrder(new Order({type: OrderType.BUY, price: 100, amount: 5, clientOrderId, timestamp, clientId}));
+            submit('bot-2', 5000);
+            const first = submit('bot-1', 1000);
+
+            expect(submit('bot-1', 1500)).toBe(first);
+
+            submit('bot-3', 5500);
+            submit('bot-4', 6001);
+
+            expect(submit('bot-1', 6001)).not.toBe(first);
+            expect(book['submissions'].size).toBe(3);
+        });
+    });
+
+    describe('getDepth', () => {
+        const rest = (type: OrderType, price: number, amount: number, extra: Partial<OrderData> = {}) =>
+            orderBook.addOrder(new Order({type, price, amount, clientId, ...extra}));
+
+        it('should aggregate each side by price level, best first', () => {
+            rest(OrderType.BUY, 99, 5);
+            rest(OrderType.BUY, 100, 3);
+            rest(OrderType.BUY, 100, 4);
+            rest(OrderType.SELL, 102, 2);
+            rest(OrderType.SELL, 101, 6);
+
+            const depth = orderBook.getDepth();
+
+            expect(depth.bids).toEqual([
+                {price: 100, amount: 7, orderCount: 2},
+                {price: 99, amount: 5, orderCount: 1}
+            ]);
+            expect(depth.asks).toEqual([
+                {price: 101, amount: 6, orderCount: 1},
+                {price: 102, amount: 2, orderCount: 1}
+            ]);
+            expect(depth).toMatchObject({bestBid: 100, bestAsk: 101, spread: 1, mid: 100.5});
+        });
+
+        it('should only count the visible slice of iceberg orders', () => {
+            rest(OrderType.SELL, 105, 50, {displayAmount: 5});
+            rest(OrderType.SELL, 105, 3);
+
+            expect(orderBook.getDepth().asks).toEqual([{price: 105, amount: 8, orderCount: 2}]);
+        });
+
+        it('should return at most the requested number of levels', () => {
+            [100, 99, 98, 97].forEach(price => rest(OrderType.BUY, price, 1));
+
+            const depth = orderBook.getDepth(2);
+
+            expect(depth.bids.map(level => level.price)).toEqual([100, 99]);
+            expect(depth.asks).toEqual([]);
+            expect(depth.bestBid).toBe(100);
+            expect(depth.spread).toBeUndefined();
+            expect(depth.mid).toBeUndefined();
+        });
+
+        it('should reject an invalid number of levels', () => {
+            expect(() => orderBook.getDepth(0)).toThrow(expect.objectContaining({code: 'INVALID_DEPTH'}));
+            expect(() => orderBook.getDepth(1.5)).toThrow(expect.objectContaining({code: 'INVALID_DEPTH'}));
+        });
+    });
+
+    describe('events', () => {
+        let events: OrderBookEvent[];
+
+        beforeEach(() => {
+            events = [];
+            orderBook.events.onAny(event => events.push(event));
+        });
+
+        it('should report acceptance, resting, the trade and both fills in sequence', () => {
+            const sell = new Order({type: OrderType.SELL, price: 100, amount: 10, clientId: 'seller'});
+            const buy = new Order({type: OrderType.BUY, price: 100, amount: 4, clientId: 'buyer'});
+
+            orderBook.addOrder(sell);
+            orderBook.addOrder(buy);
+
+            expect(events.map(event => event.type)).toEqual([
+                OrderBookEventType.ORDER_ACCEPTED,
+                OrderBookEventType.ORDER_RESTED,
+                OrderBookEventType.ORDER_ACCEPTED,
+                OrderBookEventType.TRADE_EXECUTED,
+                OrderBookEventType.ORDER_PARTIALLY_FILLED,
+                OrderBookEventType.ORDER_FILLED
+            ]);
+            expect(events.map(event => event.sequence)).toEqual([1, 2, 3, 4, 5, 6]);
+            expect(events.every(event => event.symbol === orderBook.symbol)).toBe(true);
+            expect(orderBook.getSequence()).toBe(6);
+        });
+
+        it('should hand listeners a snapshot of the order at the time of the event', () => {
+            const sell = new Order({type: OrderType.SELL, price: 100, amount: 10, clientId: 'seller'});
+            orderBook.addOrder(sell);
+            orderBook.addOrder(new Order({type: OrderType.BUY, price: 100, amount: 4, clientId: 'buyer'}));
+
+            const rested = events.find(event => event.type === OrderBookEventType.ORDER_RESTED);
+            expect(rested && 'order' in rested && rested.order.amount).toBe(10);
+            expect(sell.amount).toBe(6);
+        });
+
+        it('should hand listeners snapshots of the matched orders as well', () => {
+            const sell = new Order({type: OrderType.SELL, price: 100, amount: 10, clientId: 'seller'});
+            orderBook.addOrder(sell);
+            orderBook.addOrder(new Order({type: OrderType.BUY, price: 100, amount: 4, clientId: 'buyer'}));
+            orderBook.addOrder(new Order({type: OrderType.BUY, price: 100, amount: 6, clientId: 'buyer'}));
+
+            const [first] = events.filter(event => event.type === OrderBookEventType.TRADE_EXECUTED);
+            const match = first && 'match' in first ? first.match : undefined;
+            expect(match?.sellOrder).not.toBe(sell);
+            expect(match?.sellOrder.amount).toBe(10);
+            expect(sell.status).toBe(OrderStatus.FILLED);
+        });
+
+        it('should give the reason an order was cancelled', () => {
+            const ioc = new Order({type: OrderType.BUY, price: 100, amount: 5, clientId, timeInForce: TimeInForce.IOC});
+            const resting = new Order({type: OrderType.BUY, price: 90, amount: 5, clientId});
+
+            orderBook.addOrder(ioc);
+            orderBook.addOrder(resting);
+            orderBook.cancelOrder(resting.id);
+
+            const cancellations = events.filter(event => event.type === OrderBookEventType.ORDER_CANCELLED);
+            expect(cancellations).toEqual([
+                expect.objectContaining({reason: CancelReason.UNFILLED, order: expect.objectContaining({id: ioc.id})}),
+                expect.objectContaining({reason: CancelReason.REQUESTED, order: expect.objectContaining({id: resting.id})})
+            ]);
+        });
+
+        it('should not raise events when a state is loaded', () => {
+            const state = orderBook.getState();
+            state.buyOrders.push(new Order({type: OrderType.BUY, price: 100, amount: 1, clientId}));
+
+            orderBook.setState(state);
+
+            expect(events).toHaveLength(0);
+        });
+    });
+
+    describe('auctions', () => {
+        it('should collect crossing orders without matching them', () => {
+            orderBook.startAuction();
+
+            const sell = orderBook.addOrder(new Order({type: OrderType.SELL, price: 99, amount: 5, clientId: 'seller'}));
+            const buy = orderBook.addOrder(new Order({type: OrderType.BUY, price: 101, amount: 5, clientId: 'buyer'}));
+
+            expect(sell.matches).toHaveLength(0);
+            expect(buy.matches).toHaveLength(0);
+            expect(orderBook.getPhase()).toBe(TradingPhase.AUCTION);
+            expect(orderBook.getIndicativeAuction()).toMatchObject({volume: 5, imbalance: 0});
+        });
+
+        it('should reject orders that cannot wait for the uncross', () => {
+            orderBook.startAuction();
+
+            expect(() => orderBook.addOrder(new Order({
+                type: OrderType.BUY,
+                price: 100,
+                amount: 5,
+                clientId,
+                timeInForce: TimeInForce.IOC
+            }))).toThrow(expect.objectContaining({code: 'NOT_ALLOWED_IN_AUCTION'}));
+        });
+
+        it('should uncross every crossing order at one price and resume continuous matching', () => {
+            orderBook.startAuction();
+            const buys = [102, 101].map(price => new Order({type: OrderType.BUY, price, amount: 5, clientId: 'buyer'}));
+            const sells = [99, 100, 103].map(price => new Order({type: OrderType.SELL, price, amount: 4, clientId: 'seller'}));
+            [...buys, ...sells].forEach(order => orderBook.addOrder(order));
+
+            const result = orderBook.uncross();
+
+            expect(result.price).toBe(101);
+            expect(result.matches.every(match => match.price === 101)).toBe(true);
+            expect(result.matches.reduce((sum, match) => sum + match.matchedAmount, 0)).toBe(8);
+            expect(orderBook.getPhase()).toBe(TradingPhase.CONTINUOUS);
+            expect(orderBook.getLastTradePrice()).toBe(101);
+            expect(orderBook.getDepth()).toMatchObject({bestBid: 101, bestAsk: 103});
+
+            const taker = orderBook.addOrder(new Order({type: OrderType.SELL, price: 101, amount: 2, clientId: 'seller'}));
+            expect(taker.matches).toHaveLength(1);
+        });
+
+        it('should carry the phase in the state', () => {
+            orderBook.startAuction();
+            const other = new OrderBook();
+
+            other.setState(orderBook.getState());
+
+            expect(other.getPhase()).toBe(TradingPhase.AUCTION);
+            expect(() => orderBook.startAuction()).toThrow(expect.objectContaining({code: 'ALREADY_IN_AUCTION'}));
+        });
+    });
+
+    describe('price bands and circuit breakers', () => {
+        const trade = (book: OrderBook, price: number, timestamp: number) => {
+            book.addOrder(new Order({type: OrderType.SELL, price, amount: 1, clientId: 'seller', timestamp}));
+            return book.addOrder(new Order({type: OrderType.BUY, price, amount: 1, clientId: 'buyer', timestamp}));
+        };
+
+        it('should reject limit orders priced beyond the band on the side that trades', () => {
+            orderBook = new OrderBook(undefined, {priceBandBps: 1000});
+            trade(orderBook, 100, 1000);
+
+            expect(() => orderBook.addOrder(new Order({type: OrderType.BUY, price: 111, amount: 1, clientId})))
+                .toThrow(expect.objectContaining({code: 'PRICE_OUTSIDE_BAND'}));
+            expect(() => orderBook.addOrder(new Order({type: OrderType.SELL, price: 89, amount: 1, clientId})))
+                .toThrow(expect.objectContaining({code: 'PRICE_OUTSIDE_BAND'}));
+            // Passive prices away from the last trade may rest
+            expect(orderBook.addOrder(new Order({type: OrderType.BUY, price: 50, amount: 1, clientId})).matches).toHaveLength(0);
+        });
+
+        it('should reject amendments that move a price beyond the band or come in while halted', () => {
+            orderBook = new OrderBook(undefined, {priceBandBps: 1000});
+            trade(orderBook, 100, 1000);
+            const resting = new Order({type: OrderType.BUY, price: 95, amount: 2, clientId, timestamp: 2000});
+            orderBook.addOrder(resting);
+
+            expect(() => orderBook.amendOrder(resting.id, {price: 111}, 3000))
+                .toThrow(expect.objectContaining({code: 'PRICE_OUTSIDE_BAND'}));
+
+            orderBook.halt(10000);
+
+            expect(() => orderBook.amendOrder(resting.id, {amount: 1}, 3000))
+                .toThrow(expect.objectContaining({code: 'MARKET_HALTED'}));
+            expect(resting).toMatchObject({price: 95, amount: 2, version: 1});
+            expect(orderBook.findOrderById(resting.id)).toBe(resting);
+        });
+
+        it('should stop a market order from sweeping beyond the band', () => {
+            orderBook = new OrderBook(undefined, {priceBandBps: 1000});
+            trade(orderBook, 100, 1000);
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 105, amount: 2, clientId: 'seller'}));
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 120, amount: 2, clientId: 'seller'}));
+
+            const result = orderBook.addOrder(new Order({type: OrderType.BUY, kind: OrderKind.MARKET, amount: 4, clientId: 'buyer'}));
+
+            expect(result.matches.map(match => match.price)).toEqual([105]);
+            expect(orderBook.getDepth().bestAsk).toBe(120);
+        });
+
+        it('should halt the market when prices move beyond the threshold within the window', () => {
+            orderBook = new OrderBook(undefined, {circuitBreaker: {thresholdBps: 500, windowMs: 60000, haltMs: 300000}});
+            trade(orderBook, 100, 1000);
+            trade(orderBook, 104, 2000);
+            expect(orderBook.getPhase()).toBe(TradingPhase.CONTINUOUS);
+
+            trade(orderBook, 106, 3000);
+
+            expect(orderBook.getPhase()).toBe(TradingPhase.HALTED);
+            expect(orderBook.getHaltedUntil()).toBe(303000);
+            expect(() => orderBook.addOrder(new Order({type: OrderType.BUY, price: 100, amount: 1, clientId})))
+                .toThrow(expect.objectContaining({code: 'MARKET_HALTED'}));
+        });
+
+        it('should trip a synced node on the same trade as the node it synced from', () => {
+            const options = {circuitBreaker: {thresholdBps: 500, windowMs: 60000, haltMs: 300000}};
+            orderBook = new OrderBook(undefined, options);
+            trade(orderBook, 100, 1000);
+            trade(orderBook, 104, 2000);
+            const other = new OrderBook(undefined, options);
+            other.setState(orderBook.getState());
+
+            [orderBook, other].forEach(book => trade(book, 106, 3000));
+
+            expect(other.getPhase()).toBe(TradingPhase.HALTED);
+            expect(other.getHaltedUntil()).toBe(orderBook.getHaltedUntil());
+        });
+
+        it('should time a stop that triggers late by the trade that triggered it', () => {
+            orderBook = new OrderBook(undefined, {circuitBreaker: {thresholdBps: 500, windowMs: 60000, haltMs: 300000}});
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 100, amount: 1, clientId: 'seller', timestamp: 500}));
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 110, amount: 1, clientId: 'seller', timestamp: 600}));
+            orderBook.addOrder(new Order({
+                type: OrderType.BUY, kind: OrderKind.STOP, amount: 1, stopPrice: 100, clientId: 'stopper', timestamp: 1000
+            }));
+
+            const result = orderBook.addOrder(new Order({type: OrderType.BUY, price: 100, amount: 1, clientId: 'buyer', timestamp: 100000}));
+
+            expect(result.triggered[0].matches.map(match => match.price)).toEqual([110]);
+            expect(orderBook.getPhase()).toBe(TradingPhase.HALTED);
+            expect(orderBook.getHaltedUntil()).toBe(400000);
+        });
+
+        it('should not count trades that have left the window', () => {
+            orderBook = new OrderBook(undefined, {circuitBreaker: {thresholdBps: 500, windowMs: 60000, haltMs: 300000}});
+            trade(orderBook, 100, 1000);
+            trade(orderBook, 106, 70000);
+
+            expect(orderBook.getPhase()).toBe(TradingPhase.CONTINUOUS);
+        });
+
+        it('should reopen through an auction when resumed', () => {
+            orderBook.halt();
+            expect(() => orderBook.halt(5000)).not.toThrow();
+            expect(orderBook.getHaltedUntil()).toBe(5000);
+
+            const other = new OrderBook();
+            other.setState(orderBook.getState());
+            expect(other.getPhase()).toBe(TradingPhase.HALTED);
+            expect(other.getHaltedUntil()).toBe(5000);
+
+            orderBook.resume();
+
+            expect(orderBook.getPhase()).toBe(TradingPhase.CONTINUOUS);
+            expect(orderBook.getHaltedUntil()).toBeUndefined();
+            expect(() => orderBook.resume()).toThrow(expect.objectContaining({code: 'NOT_HALTED'}));
+        });
+    });
+
+    describe('fees', () => {
+        it('should record maker and taker fees on each match and in the trade history', () => {
+            orderBook = new OrderBook(undefined, {fees: {tiers: [{minVolume: 0, makerBps: 10, takerBps: 20}]}});
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 1000, amount: 10, clientId: 'maker'}));
+
+            const result = orderBook.addOrder(new Order({type: OrderType.BUY, price: 1000, amount: 10, clientId: 'taker'}));
+
+            expect(result.matches[0].fees).toEqual({
+                buy: {role: FeeRole.TAKER, rateBps: 20, amount: 20, currency: FeeCurrency.QUOTE},
+                sell: {role: FeeRole.MAKER, rateBps: 10, amount: 10, currency: FeeCurrency.QUOTE}
             });
-            const result = orderBook.addOrder(buyOrder);
+            expect(orderBook.trades.query().trades[0].fees).toEqual(result.matches[0].fees);
+            expect(orderBook.fees.getVolume('taker', result.matches[0].timestamp)).toBe(10);
+        });
 
-            expect(result.matches).toHaveLength(1);
-            expect(result.matches[0].matchedAmount).toBe(5);
+        it('should charge a synced node the same tiers as the node it synced from', () => {
+            const options = {fees: {tiers: [{minVolume: 0, makerBps: 10, takerBps: 20}, {minVolume: 10, makerBps: 5, takerBps: 15}]}};
+            orderBook = new OrderBook(undefined, options);
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 1000, amount: 10, clientId: 'maker'}));
+            orderBook.addOrder(new Order({type: OrderType.BUY, price: 1000, amount: 10, clientId: 'taker'}));
+            const other = new OrderBook(undefined, options);
+            other.setState(orderBook.getState());
+
+            const next = () => new Order({id: 'next', type: OrderType.SELL, price: 1000, amount: 10, clientId: 'taker', timestamp: Date.now()});
+            const resting = () => new Order({id: 'resting', type: OrderType.BUY, price: 1000, amount: 10, clientId: 'maker'});
+            const fees = [orderBook, other].map(book => {
+                book.addOrder(resting());
+                return book.addOrder(next()).matches[0].fees;
+            });
+
+            expect(fees[0].sell).toMatchObject({role: FeeRole.TAKER, rateBps: 15});
+            expect(fees[1]).toEqual(fees[0]);
+        });
+
+        it('should charge a stop that triggers late at the tier of the time it trades', () => {
+            const hour = 60 * 60 * 1000;
+            orderBook = new OrderBook(undefined, {
+                fees: {tiers: [{minVolume: 0, makerBps: 10, takerBps: 20}, {minVolume: 10, makerBps: 5, takerBps: 15}], volumeWindowMs: 24 * hour}
+            });
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 100, amount: 10, clientId: 'seller', timestamp: 1000}));
+            orderBook.addOrder(new Order({type: OrderType.BUY, price: 100, amount: 10, clientId: 'stopper', timestamp: 1000}));
+            orderBook.addOrder(new Order({
+                type: OrderType.BUY, kind: OrderKind.STOP, amount: 1, stopPrice: 101, clientId: 'stopper', timestamp: 2000
+            }));
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 101, amount: 2, clientId: 'seller', timestamp: 25 * hour}));
+
+            const result = orderBook.addOrder(new Order({type: OrderType.BUY, price: 101, amount: 1, clientId: 'buyer', timestamp: 25 * hour}));
+
+            expect(result.triggered[0].matches[0].fees.buy).toMatchObject({role: FeeRole.TAKER, rateBps: 20});
+        });
+    });
+
+    describe('accounts', () => {
+        let ledger: AccountLedger;
+
+        beforeEach(() => {
+            ledger = new AccountLedger();
+            orderBook = new OrderBook(undefined, {ledger, fees: {tiers: [{minVolume: 0, makerBps: 10, takerBps: 20}]}});
+            ledger.deposit('seller', 'BTC', 10);
+            ledger.deposit('buyer', 'USD', 100000);
+        });
+
+        it('should reject orders the client cannot pay for without touching the book', () => {
+            expect(() => orderBook.addOrder(new Order({type: OrderType.SELL, price: 1000, amount: 11, clientId: 'seller'})))
+                .toThrow(expect.objectContaining({code: 'INSUFFICIENT_BALANCE'}));
+            expect(() => orderBook.addOrder(new Order({type: OrderType.BUY, kind: OrderKind.MARKET, amount: 1, clientId: 'buyer'})))
+                .toThrow(expect.objectContaining({code: 'PRICE_LIMIT_REQUIRED'}));
+
+            expect(orderBook.getDepth()).toMatchObject({bids: [], asks: []});
+        });
+
+        it('should reserve the worst case cost and settle both sides of a match with fees', () => {
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 1000, amount: 10, clientId: 'seller'}));
+            expect(ledger.getBalance('seller', 'BTC')).toEqual({available: 0, reserved: 10});
+
+            orderBook.addOrder(new Order({type: OrderType.BUY, price: 1000, amount: 10, clientId: 'buyer'}));
+
+            expect(ledger.getBalances('buyer')).toEqual({
+                USD: {available: 100000 - 10000 - 20, reserved: 0},
+                BTC: {available: 10, reserved: 0}
+            });
+            expect(ledger.getBalances('seller')).toEqual({
+                BTC: {available: 0, reserved: 0},
+                USD: {available: 10000 - 10, reserved: 0}
+            });
+            expect(ledger.getBalance(FEE_ACCOUNT_ID, 'USD').available).toBe(30);
+        });
+
+        it('should release the funds of cancelled orders and refuse amendments beyond the balance', () => {
+            const order = new Order({type: OrderType.BUY, price: 100, amount: 5, clientId: 'buyer'});
+            orderBook.addOrder(order);
+            expect(ledger.getBalance('buyer', 'USD').reserved).toBe(501);
+
+            expect(() => orderBook.amendOrder(order.id, {amount: 1000})).toThrow(expect.objectContaining({code: 'INSUFFICIENT_BALANCE'}));
+            expect(orderBook.findOrderById(order.id)?.amount).toBe(5);
+
+            orderBook.cancelOrder(order.id);
+            expect(ledger.getBalance('buyer', 'USD')).toEqual({available: 100000, reserved: 0});
+        });
+
+        it('should keep the reservation of an order whose amendment fails', () => {
+            const order = new Order({type: OrderType.BUY, price: 100, amount: 10, clientId: 'buyer'});
+            orderBook.addOrder(order);
+            const reserved = ledger.getBalance('buyer', 'USD');
+
+            expect(() => orderBook.amendOrder(order.id, {amount: 0})).toThrow(expect.objectContaining({code: 'INVALID_AMENDMENT'}));
+
+            expect(orderBook.findOrderById(order.id)?.amount).toBe(10);
+            expect(ledger.getBalance('buyer', 'USD')).toEqual(reserved);
+            expect(() => ledger.withdraw('buyer', 'USD', reserved.available + 1))
+                .toThrow(expect.objectContaining({code: 'INSUFFICIENT_BALANCE'}));
+        });
+
+        it('should let funds earned on one book pay for orders on another that shares the ledger', () => {
+            const other = new OrderBook('ETH/USD', {ledger});
+            const ethBuy = (amount: number) => new Order({symbol: 'ETH/USD', type: OrderType.BUY, price: 100, amount, clientId: 'seller'});
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 1000, amount: 10, clientId: 'seller'}));
+            orderBook.addOrder(new Order({type: OrderType.BUY, price: 1000, amount: 10, clientId: 'buyer'}));
+
+            expect(() => other.addOrder(ethBuy(100))).toThrow(expect.objectContaining({code: 'INSUFFICIENT_BALANCE'}));
+            other.addOrder(ethBuy(99));
+
+            expect(ledger.getBalance('seller', 'USD')).toEqual({available: 90, reserved: 9900});
+        });
+    });
+
+    describe('matching policies', () => {
+        it('should share the best level pro rata when the book uses that policy', () => {
+            orderBook = new OrderBook(undefined, {matchingPolicy: new ProRataMatchingPolicy({topOrderPriority: false})});
+            const small = new Order({type: OrderType.SELL, price: 100, amount: 10, clientId: 'maker1', timestamp: Date.now() - 2});
+            const large = new Order({type: OrderType.SELL, price: 100, amount: 30, clientId: 'maker2', timestamp: Date.now() - 1});
+            orderBook.addOrder(small);
+            orderBook.addOrder(large);
+
+            const result = orderBook.addOrder(new Order({type: OrderType.BUY, price: 100, amount: 20, clientId: 'taker'}));
+
+            expect(result.matches.map(match => [match.sellOrder.id, match.matchedAmount])).toEqual([
+                [small.id, 5],
+                [large.id, 15]
+            ]);
+        });
+
+        it('should move on to the next level once the best one is used up', () => {
+            orderBook = new OrderBook(undefined, {matchingPolicy: new ProRataMatchingPolicy()});
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 100, amount: 5, clientId: 'maker1'}));
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 101, amount: 5, clientId: 'maker2'}));
+
+            const result = orderBook.addOrder(new Order({type: OrderType.BUY, price: 101, amount: 8, clientId: 'taker'}));
+
+            expect(result.matches.map(match => [match.price, match.matchedAmount])).toEqual([[100, 5], [101, 3]]);
         });
     });
 
@@ -85,6 +1365,48 @@ describe('OrderBook', () => {
         });
     });
 
+    describe('cancelClientOrders', () => {
+        it('should cancel every open order of a client on the chosen side', () => {
+            const buy = new Order({type: OrderType.BUY, price: 99, amount: 1, clientId});
+            const stop = new Order({type: OrderType.BUY, kind: OrderKind.STOP, stopPrice: 105, amount: 1, clientId});
+            const sell = new Order({type: OrderType.SELL, price: 101, amount: 1, clientId});
+            const other = new Order({type: OrderType.BUY, price: 98, amount: 1, clientId: 'other'});
+            [buy, stop, sell, other].forEach(order => orderBook.addOrder(order));
+            const events: OrderBookEvent[] = [];
+            orderBook.events.on(OrderBookEventType.ORDER_CANCELLED, event => events.push(event));
+
+            const canceled = orderBook.cancelClientOrders(clientId, OrderType.BUY, CancelReason.DISCONNECTED);
+
+            expect(canceled.map(order => order.id).sort()).toEqual([buy.id, stop.id].sort());
+            expect(events.every(event => event.type === OrderBookEventType.ORDER_CANCELLED && event.reason === CancelReason.DISCONNECTED)).toBe(true);
+            expect(orderBook.findOrderById(sell.id)).toBeDefined();
+            expect(orderBook.findOrderById(other.id)).toBeDefined();
+            expect(orderBook.cancelClientOrders(clientId)).toEqual([sell]);
+        });
+    });
+
+    describe('audit', () => {
+        it('should find nothing wrong with a book that traded', () => {
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 101, amount: 5, clientId: 'seller'}));
+            orderBook.addOrder(new Order({type: OrderType.SELL, price: 102, amount: 5, clientId: 'seller'}));
+            orderBook.addOrder(new Order({type: OrderType.BUY, price: 101, amount: 3, clientId: 'buyer'}));
+            orderBook.addOrder(new Order({type: OrderType.BUY, price: 99, amount: 3, clientId: 'buyer'}));
+
+            expect(orderBook.audit()).toEqual({symbol: orderBook.symbol, sequence: orderBook.getSequence(), violations: []});
+        });
+
+        it('should report a crossed book loaded from a bad snapshot', () => {
+            const other = new OrderBook();
+            const buy = new Order({type: OrderType.BUY, price: 101, amount: 5, clientId: 'buyer'});
+            const sell = new Order({type: OrderType.SELL, price: 100, amount: 5, clientId: 'seller'});
+            other.setState({...orderBook.getState(), buyOrders: [buy], sellOrders: [sell]});
+
+            expect(other.audit().violations).toEqual([
+                expect.objectContaining({check: AuditCheck.CROSSED_BOOK})
+            ]);
+        });
+    });
+
     describe('getState and setState', () => {
         it('should return the current state of the order book', () => {
             const buy1 = new Order({
@@ -108,5 +1430,17 @@ describe('OrderBook', () => {
             expect(state.buyOrders).toHaveLength(1);
             expect(state.sellOrders).toHaveLength(1);
         });
+
+        it('should keep trades in the trade history instead of the state', () => {
+            const sell = new Order({type: OrderType.SELL, price: 100, amount: 10, clientId: 'seller'});
+            const buy = new Order({type: OrderType.BUY, price: 100, amount: 4, clientId: 'buyer'});
+            orderBook.addOrder(sell);
+            orderBook.addOrder(buy);
+
+            expect(orderBook.getState()).not.toHaveProperty('matches');
+            expect(orderBook.trades.query({clientId: 'buyer'}).trades).toEqual([
+                expect.objectContaining({price: 100, amount: 4, buyOrderId: buy.id, sellOrderId: sell.id})
+            ]);
+        });
     });
 });
\ No newline at end of file
@@ -1,19 +1,83 @@
-import {v4 as uuidv4} from 'uuid';
-import {Order, OrderType, OrderStatus} from './Order';
+import {DEFAULT_SYMBOL, Order, OrderAmendment, OrderKind, OrderType, OrderStatus, PegType, SelfTradePrevention, TimeInForce} from './Order';
+import {mulDiv, Rounding} from './FixedPoint';
+import {OrderBookSide} from './OrderBookSide';
+import {CancelReason, OrderBookEventData, OrderBookEventEmitter, OrderBookEventType} from './OrderBookEvents';
+import {TradeHistory, TradeHistoryOptions} from './TradeHistory';
+import {CandleAggregator, CandleAggregatorOptions} from './CandleAggregator';
+import {AuctionIndication, findUncrossingPrice, TradingPhase} from './Auction';
+import {FifoMatchingPolicy, MatchingPolicy} from './MatchingPolicy';
+import {FeeCurrency, FeeEngine, FeeEngineOptions, FeeVolume, MatchFee, MatchFees} from './FeeEngine';
+import {AccountLedger, FEE_ACCOUNT_ID} from './AccountLedger';
+import {AuditReport, auditBook} from './BookAuditor';
+
+const BPS_DENOMINATOR = 10000;
+export const DEFAULT_CLIENT_ORDER_ID_RETENTION_MS = 10 * 60 * 1000;
+export const DEFAULT_DEPTH_LEVELS = 10;
 
 export interface OrderMatch {
+    /** Built from the two orders, so every node that replays them gives the trade the same ID */
     id: string;
     buyOrder: Order;
     sellOrder: Order;
     matchedAmount: number;
     price: number;
+    /** Book time of the trade, which every node that replays the orders reaches as well */
     timestamp: number;
+    fees: MatchFees;
+}
+
+/**
+ * Quantity removed from an order by self-trade prevention instead of being traded
+ */
+export interface SelfTradeCancellation {
+    order: Order;
+    amount: number;
 }
 
 export interface OrderSubmissionResult {
     order: Order;
     matches: OrderMatch[];
     remainingOrder: Order | null;
+    /** Amount that was neither filled nor left resting on the book */
+    unfilledAmount: number;
+    /** Orders, incoming or resting, reduced or cancelled to keep a client from trading with itself */
+    selfTradeCancellations: SelfTradeCancellation[];
+    /** Other members of one-cancels-other groups cancelled because of this submission */
+    groupCancellations: Order[];
+    /** Stop orders activated by the trades of this submission, in activation order */
+    triggered: OrderSubmissionResult[];
+}
+
+export interface AuctionResult {
+    /** Undefined when no orders crossed */
+    price?: number;
+    matches: OrderMatch[];
+    /** Other members of one-cancels-other groups cancelled because of the auction trades */
+    groupCancellations: Order[];
+    /** Stop orders activated by the auction trades, run once continuous matching resumed */
+    triggered: OrderSubmissionResult[];
+}
+
+/**
+ * One aggregated price level. Icebergs only contribute their visible slice.
+ */
+export interface DepthLevel {
+    price: number;
+    amount: number;
+    orderCount: number;
+}
+
+export interface OrderBookDepth {
+    /** Best first */
+    bids: DepthLevel[];
+    /** Best first */
+    asks: DepthLevel[];
+    bestBid?: number;
+    bestAsk?: number;
+    spread?: number;
+    /** Can fall between two ticks */
+    mid?: number;
+    lastTradePrice?: number;
 }
 
 export class OrderBookError extends Error {
@@ -26,20 +90,121 @@ export class OrderBookError extends Error {
 export interface OrderBookState {
     buyOrders: Order[];
     sellOrders: Order[];
-    matches: OrderMatch[];
+    /** Sent by older peers and ignored; trades are kept in the book's TradeHistory instead */
+    matches?: OrderMatch[];
+    /** Untriggered stop orders; older peers do not send them */
+    stopOrders?: Order[];
+    lastTradePrice?: number;
+    /** One-cancels-other groups that already fired; later members are rejected */
+    closedGroupIds?: string[];
+    /** Continuous when omitted */
+    phase?: TradingPhase;
+    /** End of a halt, in order time; a halt without one lasts until it is lifted */
+    haltedUntil?: number;
+    /** Rolling volumes that set each client's fee tier */
+    feeVolumes?: FeeVolume[];
+    /** Trades inside the circuit breaker window, oldest first */
+    circuitBreakerTrades?: Array<{timestamp: number; price: number}>;
+    /** Order time the book has reached; trades are timed by it */
+    bookTime?: number;
+}
+
+export interface CircuitBreakerOptions {
+    /** Spread between the highest and lowest trade price in the window, in basis points of the lowest, that halts the market */
+    thresholdBps: number;
+    /** Trades are compared with those of the last windowMs, measured in order timestamps */
+    windowMs: number;
+    /** How long a tripped breaker halts the market */
+    haltMs: number;
+}
+
+export interface OrderBookOptions {
+    /** Applied when the incoming order does not choose its own mode; self-trades are allowed when neither does */
+    selfTradePrevention?: SelfTradePrevention;
+    /** Price increment, in ticks, used when repricing post-only orders; defaults to 1 */
+    tickSize?: number;
+    /** How long, in order timestamp milliseconds from the latest order seen, a clientOrderId is remembered for deduplication */
+    clientOrderIdRetentionMs?: number;
+    /** Size and age limits of the trade history */
+    tradeHistory?: TradeHistoryOptions;
+    /** Intervals and retention of the candles built from this book's trades */
+    candles?: CandleAggregatorOptions;
+    /** How the best level is shared among its orders; price-time priority by default */
+    matchingPolicy?: MatchingPolicy;
+    /**
+     * Largest distance from the last trade price, in basis points, at which an order may trade. Limit
+     * orders priced beyond it on the side that would trade are rejected.
+     */
+    priceBandBps?: number;
+    circuitBreaker?: CircuitBreakerOptions;
+    /** Maker/taker fee tiers; no fees when omitted */
+    fees?: FeeEngineOptions;
+    /**
+     * Client balances to settle against; only orders the client can pay for are accepted. Every book of a
+     * node shares one ledger, in which the book's base asset is counted in lots and its quote asset in
+     * ticks times lots.
+     */
+    ledger?: AccountLedger;
 }
 
 export class OrderBook {
-    private readonly buyOrders: Order[] = [];
-    private readonly sellOrders: Order[] = [];
-    private readonly matches: OrderMatch[] = [];
+    private readonly buyOrders = new OrderBookSide(OrderType.BUY);
+    private readonly sellOrders = new OrderBookSide(OrderType.SELL);
+    private readonly stopOrders: Order[] = [];
+    private lastTradePrice: number | undefined;
+    private phase = TradingPhase.CONTINUOUS;
+    private haltedUntil: number | undefined;
+    /** Trades within the circuit breaker window; replicated so a synced node trips with the others */
+    private readonly recentTrades: Array<{timestamp: number; price: number}> = [];
+    /**
+     * Latest order time the book has reached, through an order, an amendment or an auction. Trades are timed by it:
+     * it only moves forward, and a stop triggered long after it was placed trades at the time of the trade that
+     * triggered it.
+     */
+    private bookTime = 0;
+    private readonly closedGroupIds = new Set<string>();
+    /** Results of recent submissions by clientId and clientOrderId; not part of the replicated state */
+    private readonly submissions = new Map<string, {timestamp: number; result: OrderSubmissionResult}>();
+    /** Latest order timestamp seen with a client order ID; submissions are timed by it so it only moves forward */
+    private submissionTime = 0;
+    /** Order and trade events of this book, numbered by sequence */
+    public readonly events = new OrderBookEventEmitter();
+    private sequence = 0;
+    /** Trades executed by this node, for queries; not replicated */
+    public readonly trades: TradeHistory;
+    public readonly candles: CandleAggregator;
+    public readonly fees: FeeEngine;
+    /** Set when balances are enforced; shared with the node's other books and replicated separately */
+    public readonly ledger: AccountLedger | undefined;
+    private readonly matchingPolicy: MatchingPolicy;
 
+    constructor(public readonly symbol: string = DEFAULT_SYMBOL, private readonly options: OrderBookOptions = {}) {
+        this.trades = new TradeHistory(options.tradeHistory);
+        this.candles = new CandleAggregator(options.candles);
+        this.fees = new FeeEngine(options.fees);
+        this.ledger = options.ledger;
+        this.matchingPolicy = options.matchingPolicy ?? new FifoMatchingPolicy();
+    }
 
     public addOrder(order: Order): OrderSubmissionResult {
         if (!order) {
             throw new OrderBookError('Cannot add null order', 'NULL_ORDER');
         }
 
+        if (order.symbol !== this.symbol) {
+            throw new OrderBookError(`Order ${order.id} is for ${order.symbol}, not ${this.symbol}`, 'SYMBOL_MISMATCH');
+        }
+
+        const submissionKey = order.clientOrderId ? `${order.clientId}:${order.clientOrderId}` : undefined;
+        if (submissionKey) {
+            this.submissionTime = Math.max(this.submissionTime, order.timestamp);
+            const cutoff = this.pruneSubmissions(this.submissionTime);
+            const previous = this.submissions.get(submissionKey);
+            if (previous && previous.timestamp >= cutoff) {
+                return previous.result;
+            }
+        }
+
         if (!order.isActive()) {
             throw new OrderBookError(`Cannot add order with status ${order.status}`, 'INVALID_ORDER_STATUS');
         }
@@ -48,130 +213,742 @@ export class OrderBook {
             throw new OrderBookError(`Order with ID ${order.id} already exists`, 'DUPLICATE_ORDER_ID');
         }
 
-        const matches: OrderMatch[] = [];
-        let remainingOrder: Order | null = order;
-        const matchingOrders = this.findMatchingOrders(order);
+        if (order.groupId && this.closedGroupIds.has(order.groupId)) {
+            throw new OrderBookError(`Order group ${order.groupId} has already been closed`, 'ORDER_GROUP_CLOSED');
+        }
 
-        // Sort matching orders by price (best price first), then by timestamp (oldest first),
-        // then by ID (for determinism when orders have same price and timestamp)
-        if (order.type === OrderType.BUY) {
-            matchingOrders.sort((a, b) => {
-                const priceDiff = a.price - b.price;
-                if (priceDiff !== 0) return priceDiff;
+        if (order.isExpired(order.timestamp)) {
+            throw new OrderBookError(`Order ${order.id} expired before it was submitted`, 'ORDER_EXPIRED');
+        }
 
-                const timeDiff = a.timestamp - b.timestamp;
-                if (timeDiff !== 0) return timeDiff;
+        if (this.phase === TradingPhase.HALTED) {
+            throw new OrderBookError(`${this.symbol} is halted`, 'MARKET_HALTED');
+        }
 
-                return a.id.localeCompare(b.id);
-            });
+        this.checkPriceBand(order, order.price);
+
+        if (this.phase === TradingPhase.AUCTION && !this.canJoinAuction(order)) {
+            throw new OrderBookError(
+                `Order ${order.id} cannot be placed while ${this.symbol} is in an auction`,
+                'NOT_ALLOWED_IN_AUCTION'
+            );
+        }
+
+        if (order.isPegged()) {
+            this.applyPeg(order);
+        }
+
+        if (order.postOnly) {
+            this.applyPostOnly(order);
+        }
+
+        if (this.ledger) {
+            this.ledger.reserve(order.id, order.clientId, this.getPaymentAsset(order.type), this.getRequiredFunds(order));
+        }
+
+        this.advanceTime(order.timestamp);
+        this.publish({type: OrderBookEventType.ORDER_ACCEPTED, order});
+
+        let result: OrderSubmissionResult;
+        if (order.isStopOrder()) {
+            this.stopOrders.push(order);
+            this.sortStopOrders();
+            result = {
+                order,
+                matches: [],
+                remainingOrder: order,
+                unfilledAmount: 0,
+                selfTradeCancellations: [],
+                groupCancellations: [],
+                triggered: []
+            };
         } else {
-            matchingOrders.sort((a, b) => {
-                const priceDiff = b.price - a.price;
-                if (priceDiff !== 0) return priceDiff;
+            result = this.executeOrder(order);
+        }
 
-                const timeDiff = a.timestamp - b.timestamp;
-                if (timeDiff !== 0) return timeDiff;
+        result.triggered = this.processStopOrders();
+        this.repricePeggedOrders();
 
-                return a.id.localeCompare(b.id);
-            });
+        if (submissionKey) {
+            // Re-inserted so the map stays in submission order, which is also the order of their times
+            this.submissions.delete(submissionKey);
+            this.submissions.set(submissionKey, {timestamp: this.submissionTime, result});
         }
+        return result;
+    }
 
-        for (const matchingOrder of matchingOrders) {
-            if (!remainingOrder || !remainingOrder.isActive()) {
+    /**
+     * Forgets client order IDs submitted longer ago than the retention window. Submissions are timed by
+     * the latest order timestamp seen, not their own, so every node forgets the same ones and the oldest
+     * come first: pruning can stop at the first one still inside the window. Returns the cutoff.
+     */
+    private pruneSubmissions(now: number): number {
+        const cutoff = now - (this.options.clientOrderIdRetentionMs ?? DEFAULT_CLIENT_ORDER_ID_RETENTION_MS);
+        for (const [key, submission] of this.submissions) {
+            if (submission.timestamp >= cutoff) {
                 break;
             }
+            this.submissions.delete(key);
+        }
+        return cutoff;
+    }
 
-            if (!matchingOrder.isActive()) {
-                continue;
-            }
+    private executeOrder(order: Order): OrderSubmissionResult {
+        if (this.phase !== TradingPhase.CONTINUOUS) {
+            return this.restWithoutMatching(order);
+        }
 
-            const matchAmount = Math.min(remainingOrder.amount, matchingOrder.amount);
-            const matchPrice = matchingOrder.price;
+        const matches: OrderMatch[] = [];
+        const selfTradeCancellations: SelfTradeCancellation[] = [];
+        const groupCancellations: Order[] = [];
+        let remainingOrder: Order | null = order;
+        let unfilledAmount = 0;
+        const priceLimit = this.getTighterLimit(
+            order.type,
+            order.isMarketOrder() ? this.getMarketPriceLimit(order) : undefined,
+            this.getPriceBandLimit(order.type)
+        );
+        const oppositeSide = this.getOppositeSide(order.type);
 
-            const match: OrderMatch = {
-                id: uuidv4(),
-                buyOrder: order.type === OrderType.BUY ? remainingOrder : matchingOrder,
-                sellOrder: order.type === OrderType.SELL ? remainingOrder : matchingOrder,
-                matchedAmount: matchAmount,
-                price: matchPrice,
-                timestamp: Date.now()
+        // Fill or kill is checked against the book before anything is touched
+        if (order.timeInForce === TimeInForce.FOK && this.getFillableAmount(order, priceLimit) < order.amount) {
+            order.cancel();
+            this.publish({type: OrderBookEventType.ORDER_CANCELLED, order, reason: CancelReason.UNFILLED});
+            return {
+                order,
+                matches,
+                remainingOrder: null,
+                unfilledAmount: order.amount,
+                selfTradeCancellations,
+                groupCancellations: this.closeGroup(order),
+                triggered: []
             };
+        }
 
-            if (!this.isValidMatch(match)) {
-                console.warn('Skipping invalid match:', match);
-                continue;
+        // The best level is re-read every round, since iceberg slices move to the back and self-trade prevention
+        // or a group cancellation can take orders off it
+        let stopped = false;
+        while (!stopped && remainingOrder && remainingOrder.isActive()) {
+            const best = oppositeSide.best();
+            if (!best || !best.canMatchWith(remainingOrder)) {
+                break;
             }
 
-            matches.push(match);
-            this.matches.push(match);
+            if (priceLimit !== undefined && !this.isWithinLimit(order.type, best.price, priceLimit)) {
+                break;
+            }
 
-            try {
-                matchingOrder.updateAfterMatch(matchAmount);
-                if (matchingOrder.status === OrderStatus.FILLED) {
-                    if (order.type === OrderType.BUY) {
-                        this.removeOrder(this.sellOrders, matchingOrder.id);
-                    } else {
-                        this.removeOrder(this.buyOrders, matchingOrder.id);
-                    }
+            const level = oppositeSide.getLevel(best.price)!.orders;
+            for (const {order: matchingOrder, amount} of this.matchingPolicy.allocate(level, remainingOrder.amount)) {
+                if (!matchingOrder.isActive()) {
+                    break;
+                }
+
+                const selfTradePrevention = this.getSelfTradePrevention(remainingOrder, matchingOrder);
+                if (selfTradePrevention) {
+                    const cancellations = this.preventSelfTrade(remainingOrder, matchingOrder, selfTradePrevention);
+                    selfTradeCancellations.push(...cancellations);
+                    cancellations
+                        .filter(cancellation => !cancellation.order.isActive())
+                        .forEach(cancellation => groupCancellations.push(...this.closeGroup(cancellation.order)));
+                    unfilledAmount += cancellations
+                        .filter(cancellation => cancellation.order === remainingOrder)
+                        .reduce((sum, cancellation) => sum + cancellation.amount, 0);
+                    break;
+                }
+
+                const price = matchingOrder.price;
+                if (!this.fill(order, remainingOrder, matchingOrder, amount, matches, groupCancellations)) {
+                    stopped = true;
+                    break;
+                }
+
+                // Whatever is left of the order rests, or is cancelled if it cannot, while the market is halted
+                if (this.tripCircuitBreaker(this.bookTime, price)) {
+                    stopped = true;
+                    break;
                 }
 
-                remainingOrder.updateAfterMatch(matchAmount);
                 if (remainingOrder.status === OrderStatus.FILLED) {
                     remainingOrder = null;
                     break;
                 }
-            } catch (err) {
-                console.error('Error updating orders after match:', err);
             }
         }
 
+        if (remainingOrder && remainingOrder.isActive() && !order.canRest()) {
+            // Market, IOC and FOK orders never rest: whatever could not be filled is cancelled
+            unfilledAmount += remainingOrder.amount;
+            remainingOrder.cancel();
+            this.publish({type: OrderBookEventType.ORDER_CANCELLED, order: remainingOrder, reason: CancelReason.UNFILLED});
+        }
+
+        if (remainingOrder && !remainingOrder.isActive()) {
+            groupCancellations.push(...this.closeGroup(remainingOrder));
+            remainingOrder = null;
+        }
+
         if (remainingOrder && remainingOrder.isActive()) {
-            if (order.type === OrderType.BUY) {
-                this.buyOrders.push(remainingOrder);
-                this.sortBuyOrders();
-            } else {
-                this.sellOrders.push(remainingOrder);
-                this.sortSellOrders();
+            if (remainingOrder.needsReplenish()) {
+                remainingOrder.replenish(remainingOrder.timestamp);
             }
-        }
 
-        this.sortBuyOrders();
-        this.sortSellOrders();
+            this.getSide(order.type).add(remainingOrder);
+            this.publish({type: OrderBookEventType.ORDER_RESTED, order: remainingOrder});
+        }
 
         return {
             order,
             matches,
-            remainingOrder
+            remainingOrder,
+            unfilledAmount,
+            selfTradeCancellations,
+            groupCancellations,
+            triggered: []
         };
     }
 
-    public cancelOrder(orderId: string): Order | undefined {
+    /**
+     * Trades part of the incoming order against one resting order at the resting order's price.
+     * Returns false when the trade could not be made and matching has to stop.
+     */
+    private fill(
+        order: Order,
+        remainingOrder: Order,
+        matchingOrder: Order,
+        matchAmount: number,
+        matches: OrderMatch[],
+        groupCancellations: Order[],
+    ): boolean {
+        const buyOrder = order.type === OrderType.BUY ? remainingOrder : matchingOrder;
+        const sellOrder = order.type === OrderType.SELL ? remainingOrder : matchingOrder;
+        const trade = {
+            id: this.getMatchId(buyOrder, sellOrder),
+            buyOrder,
+            sellOrder,
+            matchedAmount: matchAmount,
+            price: matchingOrder.price,
+            timestamp: this.bookTime
+        };
+        const match: OrderMatch = {...trade, fees: this.fees.calculate(trade, this.bookTime, order.type)};
+
+        if (!this.isValidMatch(match)) {
+            console.warn('Stopping at invalid match:', match);
+            return false;
+        }
+
+        matches.push(match);
+        this.recordMatch(match);
+
+        try {
+            matchingOrder.updateAfterMatch(matchAmount);
+            if (matchingOrder.status === OrderStatus.FILLED) {
+                this.getSide(matchingOrder.type).remove(matchingOrder.id);
+            } else if (matchingOrder.needsReplenish()) {
+                this.replenishIceberg(matchingOrder, order.timestamp);
+            }
+
+            remainingOrder.updateAfterMatch(matchAmount);
+            this.publishFill(matchingOrder, match);
+            this.publishFill(remainingOrder, match);
+            groupCancellations.push(...this.closeGroup(matchingOrder), ...this.closeGroup(remainingOrder));
+        } catch (err) {
+            console.error('Error updating orders after match:', err);
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Names a trade after its two orders and how much the buy order had filled before it, so every node
+     * replaying the same orders gives the trade the same ID
+     */
+    private getMatchId(buyOrder: Order, sellOrder: Order): string {
+        return `${buyOrder.id}:${sellOrder.id}:${buyOrder.originalAmount - buyOrder.amount}`;
+    }
+
+    /**
+     * Books a trade at the book time; fee tiers are counted in it
+     */
+    private recordMatch(match: OrderMatch): void {
+        if (this.ledger) {
+            this.settle(this.ledger, match);
+        }
+        this.fees.record(match, this.bookTime);
+        this.trades.record(match);
+        this.candles.add(match);
+        this.lastTradePrice = match.price;
+        this.publish({type: OrderBookEventType.TRADE_EXECUTED, match});
+    }
+
+    /**
+     * Rests an order without matching it, crossed or not, until the auction uncrosses or the halt ends
+     */
+    private restWithoutMatching(order: Order): OrderSubmissionResult {
+        this.getSide(order.type).add(order);
+        this.publish({type: OrderBookEventType.ORDER_RESTED, order});
+
+        return {
+            order,
+            matches: [],
+            remainingOrder: order,
+            unfilledAmount: 0,
+            selfTradeCancellations: [],
+            groupCancellations: [],
+            triggered: []
+        };
+    }
+
+    /**
+     * Only orders that can wait on the book take part in an auction; pegged orders have nothing stable
+     * to follow and post-only orders would trade at the uncrossing price
+     */
+    private canJoinAuction(order: Order): boolean {
+        return order.isStopOrder() || (order.canRest() && !order.postOnly && !order.isPegged());
+    }
+
+    /**
+     * Fires the group of an order that just traded, triggered, or left the book: every other member
+     * still on the book is cancelled. Only the first event of a group has any effect.
+     */
+    private closeGroup(order: Order): Order[] {
+        if (!order.groupId || this.closedGroupIds.has(order.groupId)) {
+            return [];
+        }
+
+        this.closedGroupIds.add(order.groupId);
+        const siblings = this.getGroupMembers(order.groupId).filter(member => member.id !== order.id);
+        for (const sibling of siblings) {
+            this.removeOrder(sibling);
+            sibling.cancel();
+            this.publish({type: OrderBookEventType.ORDER_CANCELLED, order: sibling, reason: CancelReason.GROUP});
+        }
+
+        return siblings;
+    }
+
+    /**
+     * Numbers every event whether or not anyone listens, so sequence numbers follow the book's history.
+     * Listeners get copies of the orders, matched ones included, as they were when the event happened.
+     */
+    private publish(event: OrderBookEventData): void {
+        // Every filled or cancelled order passes through here, so this is where its funds are freed
+        if (this.ledger && (event.type === OrderBookEventType.ORDER_FILLED || event.type === OrderBookEventType.ORDER_CANCELLED)) {
+            this.ledger.release(event.order.id);
+        }
+
+        const sequence = ++this.sequence;
+        if (!this.events.hasListeners(event.type)) {
+            return;
+        }
+
+        let snapshot = event;
+        if ('order' in snapshot) {
+            snapshot = {...snapshot, order: snapshot.order.clone()};
+        }
+        if ('match' in snapshot) {
+            const {match} = snapshot;
+            snapshot = {...snapshot, match: {...match, buyOrder: match.buyOrder.clone(), sellOrder: match.sellOrder.clone()}};
+        }
+        this.events.emit({...snapshot, symbol: this.symbol, sequence});
+    }
+
+    private publishFill(order: Order, match: OrderMatch): void {
+        this.publish({
+            type: order.status === OrderStatus.FILLED ? OrderBookEventType.ORDER_FILLED : OrderBookEventType.ORDER_PARTIALLY_FILLED,
+            order,
+            match
+        });
+    }
+
+    private getGroupMembers(groupId: string): Order[] {
+        return [...this.buyOrders, ...this.sellOrders, ...this.stopOrders].filter(order => order.groupId === groupId);
+    }
+
+    private getSelfTradePrevention(order: Order, restingOrder: Order): SelfTradePrevention | undefined {
+        if (order.clientId !== restingOrder.clientId) {
+            return undefined;
+        }
+        return order.selfTradePrevention ?? this.options.selfTradePrevention;
+    }
+
+    /**
+     * Resolves a would-be self-trade between the incoming order and the resting order at the head of the book
+     */
+    private preventSelfTrade(order: Order, restingOrder: Order, mode: SelfTradePrevention): SelfTradeCancellation[] {
+        const cancellations: SelfTradeCancellation[] = [];
+        const cancel = (target: Order): void => {
+            cancellations.push({order: target, amount: target.amount});
+            target.cancel();
+            this.publish({type: OrderBookEventType.ORDER_CANCELLED, order: target, reason: CancelReason.SELF_TRADE});
+        };
+
+        switch (mode) {
+            case SelfTradePrevention.CANCEL_NEWEST:
+                cancel(order);
+                break;
+            case SelfTradePrevention.CANCEL_OLDEST:
+                cancel(restingOrder);
+                break;
+            case SelfTradePrevention.CANCEL_BOTH:
+                cancel(order);
+                cancel(restingOrder);
+                break;
+            case SelfTradePrevention.DECREMENT_AND_CANCEL: {
+                const amount = Math.min(order.amount, restingOrder.amount);
+                order.decrement(amount);
+                restingOrder.decrement(amount);
+                cancellations.push({order, amount}, {order: restingOrder, amount});
+                [order, restingOrder]
+                    .filter(target => !target.isActive())
+                    .forEach(target => this.publish({type: OrderBookEventType.ORDER_CANCELLED, order: target, reason: CancelReason.SELF_TRADE}));
+                break;
+            }
+        }
+
+        if (!restingOrder.isActive()) {
+            this.removeOrder(restingOrder);
+        } else if (restingOrder.needsReplenish()) {
+            this.replenishIceberg(restingOrder, order.timestamp);
+        }
+
+        return cancellations;
+    }
+
+    /**
+     * Activates stop orders whose trigger the last trade price has reached. Stops are checked in
+     * (timestamp, id) order and the scan restarts after each activation, since its trades move the
+     * last price, so every node activates the same stops in the same order.
+     */
+    private processStopOrders(): OrderSubmissionResult[] {
+        const triggered: OrderSubmissionResult[] = [];
+
+        // Stops wait while the market does not match, and are checked again when it resumes
+        while (this.phase === TradingPhase.CONTINUOUS && this.lastTradePrice !== undefined) {
+            const lastTradePrice = this.lastTradePrice;
+            const stopOrder = this.stopOrders.find(o => o.isTriggeredBy(lastTradePrice));
+            if (!stopOrder) {
+                break;
+            }
+
+            this.removeOrder(stopOrder);
+            stopOrder.trigger();
+            const groupCancellations = this.closeGroup(stopOrder);
+            const result = this.executeOrder(stopOrder);
+            result.groupCancellations.unshift(...groupCancellations);
+            triggered.push(result);
+        }
+
+        return triggered;
+    }
+
+    /**
+     * Amends a resting order in place. The order is taken off the book and run through matching again,
+     * so a new price that crosses the spread trades immediately. When expectedVersion is given the
+     * amendment only applies to that exact version of the order.
+     */
+    public amendOrder(
+        orderId: string,
+        changes: OrderAmendment,
+        timestamp: number = Date.now(),
+        expectedVersion?: number,
+    ): OrderSubmissionResult {
         if (!orderId) {
             throw new OrderBookError('Order ID is required', 'MISSING_ORDER_ID');
         }
 
-        let order = this.removeOrder(this.buyOrders, orderId);
+        if (!changes || (changes.price === undefined && changes.amount === undefined)) {
+            throw new OrderBookError('Amendment must change the price or the amount', 'INVALID_AMENDMENT');
+        }
+
+        const order = this.findOrderById(orderId);
         if (!order) {
-            order = this.removeOrder(this.sellOrders, orderId);
+            throw new OrderBookError(`Order ${orderId} not found`, 'ORDER_NOT_FOUND');
+        }
+
+        if (order.isStopOrder()) {
+            throw new OrderBookError(`Order ${orderId} is a ${order.kind} order and cannot be amended`, 'ORDER_NOT_AMENDABLE');
+        }
+
+        if (expectedVersion !== undefined && order.version !== expectedVersion) {
+            throw new OrderBookError(
+                `Order ${orderId} is at version ${order.version}, expected ${expectedVersion}`,
+                'VERSION_CONFLICT'
+            );
+        }
+
+        if (this.phase === TradingPhase.HALTED) {
+            throw new OrderBookError(`${this.symbol} is halted`, 'MARKET_HALTED');
+        }
+
+        if (changes.price !== undefined) {
+            this.checkPriceBand(order, changes.price);
+        }
+
+        const amendment = {...changes};
+        if (order.postOnly && amendment.price !== undefined && this.wouldCross(order.type, amendment.price)) {
+            amendment.price = this.getPostOnlyPrice(order, amendment.price);
+        }
+
+        // Resized first so an amendment the client cannot pay for leaves the order untouched
+        const reserved = this.ledger?.getReservation(order.id)?.amount;
+        if (this.ledger) {
+            this.ledger.resize(order.id, this.getRequiredFunds(order, amendment.price ?? order.price, amendment.amount ?? order.amount));
+        }
+
+        const side = this.getSide(order.type);
+        side.remove(orderId);
+        try {
+            order.amend(amendment, timestamp);
+        } catch (err) {
+            side.add(order);
+            if (this.ledger && reserved !== undefined) {
+                this.ledger.resize(order.id, reserved);
+            }
+            throw new OrderBookError(`Failed to amend order: ${(err as Error).message}`, 'INVALID_AMENDMENT');
+        }
+
+        this.advanceTime(timestamp);
+        const result = this.executeOrder(order);
+        result.triggered = this.processStopOrders();
+        this.repricePeggedOrders();
+        return result;
+    }
+
+    public getPhase(): TradingPhase {
+        return this.phase;
+    }
+
+    /**
+     * Stops matching: orders are collected, crossing or not, until uncross() executes them at a single price
+     */
+    public startAuction(): void {
+        if (this.phase === TradingPhase.AUCTION) {
+            throw new OrderBookError(`${this.symbol} is already in an auction`, 'ALREADY_IN_AUCTION');
+        }
+        this.phase = TradingPhase.AUCTION;
+        this.haltedUntil = undefined;
+    }
+
+    /**
+     * Stops trading until resume(); until is the order time at which the halt may be lifted
+     */
+    public halt(until?: number): void {
+        this.phase = TradingPhase.HALTED;
+        this.haltedUntil = until;
+    }
+
+    public getHaltedUntil(): number | undefined {
+        return this.haltedUntil;
+    }
+
+    /**
+     * Lifts a halt through a reopening auction, so orders left crossing by the halt trade at one price
+     */
+    public resume(): AuctionResult {
+        if (this.phase !== TradingPhase.HALTED) {
+            throw new OrderBookError(`${this.symbol} is not halted`, 'NOT_HALTED');
+        }
+
+        this.phase = TradingPhase.AUCTION;
+        this.haltedUntil = undefined;
+        this.recentTrades.length = 0;
+        return this.uncross();
+    }
+
+    /**
+     * Price and volume the auction would uncross at if it ended now
+     */
+    public getIndicativeAuction(): AuctionIndication {
+        if (this.phase !== TradingPhase.AUCTION) {
+            throw new OrderBookError(`${this.symbol} is not in an auction`, 'NOT_IN_AUCTION');
+        }
+        return findUncrossingPrice(this.buyOrders.getLevels(), this.sellOrders.getLevels(), this.lastTradePrice);
+    }
+
+    /**
+     * Ends the auction: every crossing order trades at the uncrossing price in price-time priority,
+     * iceberg reserves included and without self-trade prevention, and continuous matching resumes
+     */
+    public uncross(): AuctionResult {
+        const {price} = this.getIndicativeAuction();
+        const matches: OrderMatch[] = [];
+        const groupCancellations: Order[] = [];
+
+        while (price !== undefined) {
+            const bid = this.buyOrders.best();
+            const ask = this.sellOrders.best();
+            if (!bid || !ask || bid.price < price || ask.price > price) {
+                break;
+            }
+
+            // There is no incoming order, so the book time is at least that of the later of the two orders
+            this.advanceTime(Math.max(bid.timestamp, ask.timestamp));
+            const trade = {
+                id: this.getMatchId(bid, ask),
+                buyOrder: bid,
+                sellOrder: ask,
+                matchedAmount: Math.min(bid.amount, ask.amount),
+                price,
+                timestamp: this.bookTime
+            };
+            // Neither side takes liquidity in an auction, so both pay maker fees
+            const match: OrderMatch = {...trade, fees: this.fees.calculate(trade, this.bookTime)};
+
+            matches.push(match);
+            this.recordMatch(match);
+
+            for (const order of [bid, ask]) {
+                order.updateAfterMatch(match.matchedAmount);
+                if (order.status === OrderStatus.FILLED) {
+                    this.getSide(order.type).remove(order.id);
+                } else if (order.needsReplenish()) {
+                    this.replenishIceberg(order, order.timestamp);
+                }
+                this.publishFill(order, match);
+            }
+            groupCancellations.push(...this.closeGroup(bid), ...this.closeGroup(ask));
+        }
+
+        this.phase = TradingPhase.CONTINUOUS;
+        const triggered = this.processStopOrders();
+        this.repricePeggedOrders();
+
+        return {price, matches, groupCancellations, triggered};
+    }
+
+    public cancelOrder(orderId: string): Order | undefined {
+        if (!orderId) {
+            throw new OrderBookError('Order ID is required', 'MISSING_ORDER_ID');
         }
 
+        const order = this.findOrderById(orderId);
         if (order) {
+            this.removeOrder(order);
             try {
                 order.cancel();
             } catch (err) {
                 console.error(`Error cancelling order ${orderId}:`, err);
                 throw new OrderBookError(`Failed to cancel order: ${(err as Error).message}`, 'CANCEL_ERROR');
             }
+            this.publish({type: OrderBookEventType.ORDER_CANCELLED, order, reason: CancelReason.REQUESTED});
+            this.closeGroup(order);
+            this.repricePeggedOrders();
+        }
+
+        return order;
+    }
+
+    /**
+     * Cancels every order of a one-cancels-other group and closes the group to new members
+     */
+    public cancelGroup(groupId: string): Order[] {
+        if (!groupId) {
+            throw new OrderBookError('Group ID is required', 'MISSING_GROUP_ID');
+        }
+
+        const members = this.getGroupMembers(groupId);
+        for (const member of members) {
+            this.removeOrder(member);
+            member.cancel();
+            this.publish({type: OrderBookEventType.ORDER_CANCELLED, order: member, reason: CancelReason.REQUESTED});
+        }
+        this.closedGroupIds.add(groupId);
+        this.repricePeggedOrders();
+
+        return members;
+    }
+
+    /**
+     * Cancels every open order of a client, including stop orders, or only those of one side
+     */
+    public cancelClientOrders(clientId: string, side?: OrderType, reason: CancelReason = CancelReason.REQUESTED): Order[] {
+        if (!clientId) {
+            throw new OrderBookError('Client ID is required', 'MISSING_CLIENT_ID');
+        }
+
+        const orders = [...this.buyOrders, ...this.sellOrders, ...this.stopOrders]
+            .filter(order => order.clientId === clientId && (side === undefined || order.type === side));
+        const canceled: Order[] = [];
+
+        for (const order of orders) {
+            // An earlier cancellation may already have taken it off as a group member
+            if (!order.isActive()) {
+                continue;
+            }
+            this.removeOrder(order);
+            order.cancel();
+            this.publish({type: OrderBookEventType.ORDER_CANCELLED, order, reason});
+            this.closeGroup(order);
+            canceled.push(order);
+        }
+        this.repricePeggedOrders();
+
+        return canceled;
+    }
+
+    /**
+     * Removes every resting order whose expiry is at or before now
+     */
+    public expireOrders(now: number): Order[] {
+        const expired = [...this.buyOrders, ...this.sellOrders, ...this.stopOrders].filter(order => order.isExpired(now));
+
+        for (const order of expired) {
+            // An earlier expiry in this sweep may already have cancelled it as a group member
+            if (!order.isActive()) {
+                continue;
+            }
+            this.removeOrder(order);
+            order.expire();
+            this.publish({type: OrderBookEventType.ORDER_CANCELLED, order, reason: CancelReason.EXPIRED});
+            this.closeGroup(order);
         }
 
+        if (expired.length > 0) {
+            this.repricePeggedOrders();
+        }
+
+        return expired;
+    }
+
+    /**
+     * Applies an expiry announced by another node
+     */
+    public expireOrder(orderId: string): Order | undefined {
+        if (!orderId) {
+            throw new OrderBookError('Order ID is required', 'MISSING_ORDER_ID');
+        }
+
+        const order = this.findOrderById(orderId);
+        if (!order) {
+            return undefined;
+        }
+
+        if (order.expiresAt === undefined) {
+            throw new OrderBookError(`Order ${orderId} has no expiry`, 'ORDER_NOT_EXPIRABLE');
+        }
+
+        this.removeOrder(order);
+        order.expire();
+        this.publish({type: OrderBookEventType.ORDER_CANCELLED, order, reason: CancelReason.EXPIRED});
+        this.closeGroup(order);
+        this.repricePeggedOrders();
         return order;
     }
 
     public getState(): OrderBookState {
         return {
-            buyOrders: this.buyOrders.map(order => order.clone()),
-            sellOrders: this.sellOrders.map(order => order.clone()),
-            matches: [...this.matches]
+            buyOrders: this.buyOrders.toArray().map(order => order.clone()),
+            sellOrders: this.sellOrders.toArray().map(order => order.clone()),
+            stopOrders: this.stopOrders.map(order => order.clone()),
+            lastTradePrice: this.lastTradePrice,
+            closedGroupIds: [...this.closedGroupIds],
+            phase: this.phase,
+            haltedUntil: this.haltedUntil,
+            feeVolumes: this.fees.getState(),
+            circuitBreakerTrades: this.recentTrades.map(trade => ({...trade})),
+            bookTime: this.bookTime
         };
     }
 
@@ -180,53 +957,425 @@ export class OrderBook {
             throw new OrderBookError('Invalid orderbook state', 'INVALID_STATE');
         }
 
-        this.buyOrders.length = 0;
-        this.sellOrders.length = 0;
-        this.matches.length = 0;
+        this.buyOrders.clear();
+        this.sellOrders.clear();
+        this.stopOrders.length = 0;
 
-        this.buyOrders.push(...state.buyOrders);
-        this.sellOrders.push(...state.sellOrders);
-        this.matches.push(...state.matches);
+        state.buyOrders.forEach(order => this.buyOrders.add(order));
+        state.sellOrders.forEach(order => this.sellOrders.add(order));
+        this.stopOrders.push(...(state.stopOrders || []));
+        this.lastTradePrice = state.lastTradePrice;
+        this.closedGroupIds.clear();
+        (state.closedGroupIds || []).forEach(groupId => this.closedGroupIds.add(groupId));
+        this.phase = state.phase ?? TradingPhase.CONTINUOUS;
+        this.haltedUntil = state.haltedUntil;
+        if (state.feeVolumes) {
+            this.fees.setState(state.feeVolumes);
+        }
+        this.recentTrades.length = 0;
+        this.recentTrades.push(...(state.circuitBreakerTrades || []).map(trade => ({...trade})));
+        this.bookTime = state.bookTime ?? 0;
 
-        this.sortBuyOrders();
-        this.sortSellOrders();
+        this.sortStopOrders();
     }
 
     public findOrderById(orderId: string): Order | undefined {
-        return this.buyOrders.find(o => o.id === orderId) ||
-            this.sellOrders.find(o => o.id === orderId);
+        return this.buyOrders.get(orderId) ||
+            this.sellOrders.get(orderId) ||
+            this.stopOrders.find(o => o.id === orderId);
     }
 
-    private findMatchingOrders(order: Order): Order[] {
-        const orders = order.type === OrderType.BUY ? this.sellOrders : this.buyOrders;
-        return orders.filter(o => o.canMatchWith(order)).map(o => o.clone());
+    /**
+     * Level-2 view of the book: the top levels of each side aggregated by price, without order or client IDs
+     */
+    public getDepth(levels: number = DEFAULT_DEPTH_LEVELS): OrderBookDepth {
+        if (!Number.isSafeInteger(levels) || levels <= 0) {
+            throw new OrderBookError(`Invalid number of depth levels: ${levels}`, 'INVALID_DEPTH');
+        }
+
+        const aggregate = (side: OrderBookSide): DepthLevel[] => side.getLevels().slice(0, levels).map(level => ({
+            price: level.price,
+            amount: level.orders.reduce((total, order) => total + order.visibleAmount, 0),
+            orderCount: level.orders.length
+        }));
+
+        const bestBid = this.buyOrders.best()?.price;
+        const bestAsk = this.sellOrders.best()?.price;
+        const hasBoth = bestBid !== undefined && bestAsk !== undefined;
+
+        return {
+            bids: aggregate(this.buyOrders),
+            asks: aggregate(this.sellOrders),
+            bestBid,
+            bestAsk,
+            spread: hasBoth ? bestAsk - bestBid : undefined,
+            mid: hasBoth ? (bestBid + bestAsk) / 2 : undefined,
+            lastTradePrice: this.lastTradePrice
+        };
     }
 
-    private removeOrder(orders: Order[], orderId: string): Order | undefined {
-        const index = orders.findIndex(o => o.id === orderId);
-        if (index !== -1) {
-            return orders.splice(index, 1)[0];
+    /**
+     * Sequence number of the last event raised by this book
+     */
+    public getSequence(): number {
+        return this.sequence;
+    }
+
+    public getLastTradePrice(): number | undefined {
+        return this.lastTradePrice;
+    }
+
+    /**
+     * Prices an incoming pegged order. It is kept one tick clear of the opposite side, so it always rests.
+     */
+    private applyPeg(order: Order): void {
+        const price = this.getPegPrice(order, this.getOppositeSide(order.type).best()?.price);
+
+        if (price === undefined) {
+            if (order.price > 0) {
+                return;
+            }
+            throw new OrderBookError(`No ${order.pegType} price to peg order ${order.id} to`, 'PEG_REFERENCE_UNAVAILABLE');
         }
-        return undefined;
+
+        order.reprice(price);
     }
 
-    private sortBuyOrders(): void {
-        this.buyOrders.sort((a, b) => {
-            const priceDiff = b.price - a.price;
-            if (priceDiff !== 0) return priceDiff;
+    /**
+     * Follows the top of book with every resting pegged order. References come from non-pegged orders
+     * only; buys are repriced first and sells are then kept clear of them, so pegs never cross.
+     * An order whose reference side is empty keeps its last price.
+     */
+    private repricePeggedOrders(): void {
+        // A book in auction or halted may be crossed, so pegs wait for continuous matching
+        if (this.phase !== TradingPhase.CONTINUOUS) {
+            return;
+        }
 
-            const timeDiff = a.timestamp - b.timestamp;
-            if (timeDiff !== 0) return timeDiff;
+        const peggedBuys = this.buyOrders.getPeggedOrders();
+        const peggedSells = this.sellOrders.getPeggedOrders();
+        if (peggedBuys.length === 0 && peggedSells.length === 0) {
+            return;
+        }
 
-            return a.id.localeCompare(b.id);
-        });
+        const bestAsk = this.sellOrders.bestUnpeggedPrice();
+        peggedBuys.forEach(order => this.repriceOnSide(this.buyOrders, order, this.getPegPrice(order, bestAsk)));
+
+        const bestBid = this.buyOrders.best()?.price;
+        peggedSells.forEach(order => this.repriceOnSide(this.sellOrders, order, this.getPegPrice(order, bestBid)));
+    }
+
+    private repriceOnSide(side: OrderBookSide, order: Order, price: number | undefined): void {
+        if (price !== undefined && price !== order.price) {
+            order.reprice(price);
+            side.reposition(order);
+        }
+    }
+
+    private getPegPrice(order: Order, oppositeBound: number | undefined): number | undefined {
+        const isBuy = order.type === OrderType.BUY;
+        const bestBid = this.buyOrders.bestUnpeggedPrice();
+        const bestAsk = this.sellOrders.bestUnpeggedPrice();
+
+        let reference: number | undefined;
+        switch (order.pegType) {
+            case PegType.PRIMARY:
+                reference = isBuy ? bestBid : bestAsk;
+                break;
+            case PegType.MARKET:
+                reference = isBuy ? bestAsk : bestBid;
+                break;
+            case PegType.MID:
+                reference = bestBid !== undefined && bestAsk !== undefined ? (bestBid + bestAsk) / 2 : undefined;
+                break;
+        }
+
+        if (reference === undefined) {
+            return undefined;
+        }
+
+        // Off-tick references, such as a mid between two ticks, round away from the opposite side
+        const tickSize = this.options.tickSize ?? 1;
+        const target = reference + (order.pegOffset ?? 0);
+        let price = isBuy ? Math.floor(target / tickSize) * tickSize : Math.ceil(target / tickSize) * tickSize;
+
+        if (order.pegLimit !== undefined) {
+            price = isBuy ? Math.min(price, order.pegLimit) : Math.max(price, order.pegLimit);
+        }
+        if (oppositeBound !== undefined) {
+            price = isBuy ? Math.min(price, oppositeBound - tickSize) : Math.max(price, oppositeBound + tickSize);
+        }
+
+        return price > 0 ? price : undefined;
+    }
+
+    /**
+     * Makes sure a post-only order can only add liquidity: rejects it, or moves it one tick
+     * behind the best opposite price when it asked to be repriced
+     */
+    private applyPostOnly(order: Order): void {
+        if (this.wouldCross(order.type, order.price)) {
+            order.reprice(this.getPostOnlyPrice(order, order.price));
+        }
+    }
+
+    private getPostOnlyPrice(order: Order, price: number): number {
+        const bestOpposite = this.getOppositeSide(order.type).best()!;
+        const tickSize = this.options.tickSize ?? 1;
+        const passivePrice = order.type === OrderType.BUY ? bestOpposite.price - tickSize : bestOpposite.price + tickSize;
+
+        if (!order.repriceOnCross || passivePrice <= 0) {
+            throw new OrderBookError(
+                `Post-only order ${order.id} at ${price} would take liquidity at ${bestOpposite.price}`,
+                'POST_ONLY_WOULD_CROSS'
+            );
+        }
+
+        return passivePrice;
+    }
+
+    private wouldCross(type: OrderType, price: number): boolean {
+        const bestOpposite = this.getOppositeSide(type).best();
+        if (!bestOpposite) {
+            return false;
+        }
+
+        return type === OrderType.BUY ? price >= bestOpposite.price : price <= bestOpposite.price;
+    }
+
+    /**
+     * Shows the next slice of an iceberg from its hidden reserve. The slice joins the back of its
+     * price level: its timestamp is the aggressor's, or just after the newest order at that level,
+     * so every node assigns the same one.
+     */
+    private replenishIceberg(order: Order, aggressorTimestamp: number): void {
+        const side = this.getSide(order.type);
+        const queue = side.getLevel(order.price)?.orders || [];
+        const newest = queue[queue.length - 1]?.id === order.id ? queue[queue.length - 2] : queue[queue.length - 1];
+        const newestAtLevel = newest ? newest.timestamp : 0;
+
+        order.replenish(Math.max(aggressorTimestamp, newestAtLevel + 1));
+        side.reposition(order);
+    }
+
+    /**
+     * Combines a market order's worst price with its slippage allowance around the current best opposite price,
+     * keeping whichever is tighter
+     */
+    private getMarketPriceLimit(order: Order): number | undefined {
+        let limit = order.worstPrice;
+
+        const best = this.getOppositeSide(order.type).best();
+        if (order.maxSlippageBps !== undefined && best) {
+            const slippageLimit = order.type === OrderType.BUY
+                ? mulDiv(best.price, BPS_DENOMINATOR + order.maxSlippageBps, BPS_DENOMINATOR, Rounding.DOWN)
+                : mulDiv(best.price, BPS_DENOMINATOR - order.maxSlippageBps, BPS_DENOMINATOR, Rounding.UP);
+
+            if (limit === undefined || this.isWithinLimit(order.type, slippageLimit, limit)) {
+                limit = slippageLimit;
+            }
+        }
+
+        return limit;
+    }
+
+    private getFillableAmount(order: Order, priceLimit: number | undefined): number {
+        let fillable = 0;
+
+        for (const matchingOrder of this.getOppositeSide(order.type)) {
+            if (fillable >= order.amount || !matchingOrder.canMatchWith(order)) {
+                break;
+            }
+            if (priceLimit !== undefined && !this.isWithinLimit(order.type, matchingOrder.price, priceLimit)) {
+                break;
+            }
+
+            // Only cancelling the resting side lets the order keep matching past its own liquidity
+            const selfTradePrevention = this.getSelfTradePrevention(order, matchingOrder);
+            if (selfTradePrevention === SelfTradePrevention.CANCEL_OLDEST) {
+                continue;
+            }
+            if (selfTradePrevention) {
+                break;
+            }
+
+            fillable += matchingOrder.amount;
+        }
+
+        return fillable;
+    }
+
+    /**
+     * Checks the book's invariants: not crossed while matching, every order on it once, active, on the
+     * right side, in price-time order, and with amounts that agree with the trade history
+     */
+    public audit(): AuditReport {
+        return {
+            symbol: this.symbol,
+            sequence: this.sequence,
+            violations: auditBook({
+                bids: this.buyOrders.getLevels(),
+                asks: this.sellOrders.getLevels(),
+                stopOrders: this.stopOrders,
+                matching: this.phase === TradingPhase.CONTINUOUS,
+                matchedAmounts: this.trades.getMatchedAmounts()
+            })
+        };
+    }
+
+    /**
+     * Base and quote asset of this market, e.g. BTC and USD for BTC/USD
+     */
+    public getAssets(): {base: string; quote: string} {
+        const [base, quote] = this.symbol.split('/');
+        return {base, quote};
+    }
+
+    private getPaymentAsset(type: OrderType): string {
+        const {base, quote} = this.getAssets();
+        return type === OrderType.BUY ? quote : base;
     }
 
-    private sortSellOrders(): void {
-        this.sellOrders.sort((a, b) => {
-            const priceDiff = a.price - b.price;
-            if (priceDiff !== 0) return priceDiff;
+    /**
+     * Funds an order needs held while it is open: its amount for a sell, its amount at the highest price it
+     * can trade at for a buy, and room for the highest fee when fees are paid in the same asset
+     */
+    private getRequiredFunds(order: Order, price: number = order.price, amount: number = order.amount): number {
+        const feeCurrency = order.type === OrderType.BUY ? FeeCurrency.QUOTE : FeeCurrency.BASE;
+        const feeBps = this.fees.getCurrency() === feeCurrency ? this.fees.getMaxRateBps() : 0;
+
+        if (order.type === OrderType.SELL) {
+            return mulDiv(amount, BPS_DENOMINATOR + feeBps, BPS_DENOMINATOR, Rounding.UP);
+        }
+
+        const maxPrice = order.isPegged() ? order.pegLimit
+            : order.kind === OrderKind.MARKET || order.kind === OrderKind.STOP ? order.worstPrice
+            : price;
+        if (maxPrice === undefined) {
+            throw new OrderBookError(
+                `Buy order ${order.id} needs a limit price, worst price or peg limit to reserve funds`,
+                'PRICE_LIMIT_REQUIRED'
+            );
+        }
 
+        return mulDiv(mulDiv(maxPrice, amount, 1), BPS_DENOMINATOR + feeBps, BPS_DENOMINATOR, Rounding.UP);
+    }
+
+    /**
+     * Pays both sides of a match out of their reservations and collects the fees
+     */
+    private settle(ledger: AccountLedger, match: OrderMatch): void {
+        const {base, quote} = this.getAssets();
+        const {buyOrder, sellOrder, matchedAmount} = match;
+        const notional = mulDiv(match.price, matchedAmount, 1);
+        const feeIn = (fee: MatchFee, currency: FeeCurrency) => fee.currency === currency ? fee.amount : 0;
+
+        ledger.consume(buyOrder.id, buyOrder.clientId, quote, notional + feeIn(match.fees.buy, FeeCurrency.QUOTE));
+        ledger.credit(buyOrder.clientId, base, matchedAmount - feeIn(match.fees.buy, FeeCurrency.BASE));
+        ledger.consume(sellOrder.id, sellOrder.clientId, base, matchedAmount + feeIn(match.fees.sell, FeeCurrency.BASE));
+        ledger.credit(sellOrder.clientId, quote, notional - feeIn(match.fees.sell, FeeCurrency.QUOTE));
+        ledger.credit(
+            FEE_ACCOUNT_ID,
+            match.fees.buy.currency === FeeCurrency.BASE ? base : quote,
+            match.fees.buy.amount + match.fees.sell.amount
+        );
+    }
+
+    /**
+     * Limit prices outside the band are refused; pegged orders follow the book and are not checked
+     */
+    private checkPriceBand(order: Order, price: number): void {
+        const bandLimit = this.getPriceBandLimit(order.type);
+        if (bandLimit !== undefined && order.kind === OrderKind.LIMIT && !order.isPegged() &&
+            !this.isWithinLimit(order.type, price, bandLimit)) {
+            throw new OrderBookError(
+                `Price ${price} is outside the price band of ${this.symbol} (limit ${bandLimit})`,
+                'PRICE_OUTSIDE_BAND'
+            );
+        }
+    }
+
+    /**
+     * Furthest price an order of this side may trade at under the price band, if there is one
+     */
+    private getPriceBandLimit(type: OrderType): number | undefined {
+        const bandBps = this.options.priceBandBps;
+        if (bandBps === undefined || this.lastTradePrice === undefined) {
+            return undefined;
+        }
+
+        return type === OrderType.BUY
+            ? mulDiv(this.lastTradePrice, BPS_DENOMINATOR + bandBps, BPS_DENOMINATOR, Rounding.DOWN)
+            : mulDiv(this.lastTradePrice, Math.max(0, BPS_DENOMINATOR - bandBps), BPS_DENOMINATOR, Rounding.UP);
+    }
+
+    private getTighterLimit(type: OrderType, a: number | undefined, b: number | undefined): number | undefined {
+        if (a === undefined || b === undefined) {
+            return a ?? b;
+        }
+        return type === OrderType.BUY ? Math.min(a, b) : Math.max(a, b);
+    }
+
+    private advanceTime(timestamp: number): void {
+        this.bookTime = Math.max(this.bookTime, timestamp);
+    }
+
+    /**
+     * Records a trade in the circuit breaker window and halts the market when prices within the window
+     * spread further than the threshold. Uses book time so every node trips on the same trade.
+     */
+    private tripCircuitBreaker(timestamp: number, price: number): boolean {
+        const breaker = this.options.circuitBreaker;
+        if (!breaker) {
+            return false;
+        }
+
+        this.recentTrades.push({timestamp, price});
+        while (this.recentTrades[0].timestamp < timestamp - breaker.windowMs) {
+            this.recentTrades.shift();
+        }
+
+        const prices = this.recentTrades.map(trade => trade.price);
+        const low = Math.min(...prices);
+        const high = Math.max(...prices);
+        if ((high - low) * BPS_DENOMINATOR < breaker.thresholdBps * low) {
+            return false;
+        }
+
+        this.recentTrades.length = 0;
+        this.halt(timestamp + breaker.haltMs);
+        return true;
+    }
+
+    private isWithinLimit(type: OrderType, price: number, limit: number): boolean {
+        return type === OrderType.BUY ? price <= limit : price >= limit;
+    }
+
+    private getSide(type: OrderType): OrderBookSide {
+        return type === OrderType.BUY ? this.buyOrders : this.sellOrders;
+    }
+
+    private getOppositeSide(type: OrderType): OrderBookSide {
+        return type === OrderType.BUY ? this.sellOrders : this.buyOrders;
+    }
+
+    /**
+     * Takes an order off whichever part of the book holds it: its side, or the stop orders
+     */
+    private removeOrder(order: Order): void {
+        if (!order.isStopOrder()) {
+            this.getSide(order.type).remove(order.id);
+            return;
+        }
+
+        const index = this.stopOrders.findIndex(o => o.id === order.id);
+        if (index !== -1) {
+            this.stopOrders.splice(index, 1);
+        }
+    }
+
+    private sortStopOrders(): void {
+        this.stopOrders.sort((a, b) => {
             const timeDiff = a.timestamp - b.timestamp;
             if (timeDiff !== 0) return timeDiff;
 
@@ -240,7 +1389,7 @@ export class OrderBook {
             return false;
         }
 
-        const {buyOrders, sellOrders, matches} = state as Record<string, unknown>;
+        const {buyOrders, sellOrders} = state as Record<string, unknown>;
 
         if (!Array.isArray(buyOrders)) {
             console.warn('Invalid state: buyOrders is not an array');
@@ -252,8 +1401,53 @@ export class OrderBook {
             return false;
         }
 
-        if (!Array.isArray(matches)) {
-            console.warn('Invalid state: matches is not an array');
+        const {
+            stopOrders, lastTradePrice, closedGroupIds, phase, haltedUntil, feeVolumes, circuitBreakerTrades, bookTime
+        } = state as Record<string, unknown>;
+
+        if (stopOrders !== undefined && !Array.isArray(stopOrders)) {
+            console.warn('Invalid state: stopOrders is not an array');
+            return false;
+        }
+
+        if (lastTradePrice !== undefined && !Number.isSafeInteger(lastTradePrice)) {
+            console.warn('Invalid state: lastTradePrice is not an integer');
+            return false;
+        }
+
+        if (closedGroupIds !== undefined && (!Array.isArray(closedGroupIds) || !closedGroupIds.every(id => typeof id === 'string'))) {
+            console.warn('Invalid state: closedGroupIds is not a list of IDs');
+            return false;
+        }
+
+        if (phase !== undefined && !Object.values(TradingPhase).includes(phase as TradingPhase)) {
+            console.warn('Invalid state: unknown trading phase');
+            return false;
+        }
+
+        if (haltedUntil !== undefined && !Number.isSafeInteger(haltedUntil)) {
+            console.warn('Invalid state: haltedUntil is not an integer');
+            return false;
+        }
+
+        if (feeVolumes !== undefined && !FeeEngine.isValidState(feeVolumes)) {
+            console.warn('Invalid state: malformed fee volumes');
+            return false;
+        }
+
+        if (circuitBreakerTrades !== undefined && !OrderBook.isValidCircuitBreakerTrades(circuitBreakerTrades)) {
+            console.warn('Invalid state: malformed circuit breaker trades');
+            return false;
+        }
+
+        if (bookTime !== undefined && !Number.isSafeInteger(bookTime)) {
+            console.warn('Invalid state: bookTime is not an integer');
+            return false;
+        }
+
+        const orderIds = [...buyOrders, ...sellOrders, ...(stopOrders || [])].map(order => (order as Order).id);
+        if (new Set(orderIds).size !== orderIds.length) {
+            console.warn('Invalid state: duplicate order IDs');
             return false;
         }
 
@@ -265,6 +1459,11 @@ export class OrderBook {
         }
     }
 
+    public static isValidCircuitBreakerTrades(trades: unknown): trades is Array<{timestamp: number; price: number}> {
+        return Array.isArray(trades) && trades.every(trade =>
+            !!trade && typeof trade === 'object' && Number.isSafeInteger(trade.timestamp) && Number.isSafeInteger(trade.price));
+    }
+
     private isValidMatch(match: OrderMatch): boolean {
         if (!match || typeof match !== 'object') {
             console.error('Invalid match: not an object');
@@ -304,7 +1503,7 @@ export class OrderBook {
             return false;
         }
 
-        if (match.price <= 0 || match.sellOrder.price > match.buyOrder.price) {
+        if (match.price <= 0 || !match.buyOrder.acceptsPrice(match.price) || !match.sellOrder.acceptsPrice(match.price)) {
             console.error('Invalid match: invalid price', {
                 matchPrice: match.price,
                 buyOrderPrice: match.buyOrder.price,
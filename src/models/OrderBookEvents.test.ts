@@ -0,0 +1,56 @@
+import {Order, OrderType} from './Order';
+import {OrderBookEvent, OrderBookEventEmitter, OrderBookEventType} from './OrderBookEvents';
+
+describe('OrderBookEventEmitter', () => {
+    let emitter: OrderBookEventEmitter;
+    const accepted = (sequence: number): OrderBookEvent => ({
+        type: OrderBookEventType.ORDER_ACCEPTED,
+        symbol: 'BTC/USD',
+        sequence,
+        order: new Order({type: OrderType.BUY, price: 100, amount: 1, clientId: 'client'})
+    });
+
+    beforeEach(() => {
+        emitter = new OrderBookEventEmitter();
+    });
+
+    it('should only call listeners of the emitted type, and catch-all listeners', () => {
+        const onAccepted = jest.fn();
+        const onFilled = jest.fn();
+        const onAny = jest.fn();
+        emitter.on(OrderBookEventType.ORDER_ACCEPTED, onAccepted);
+        emitter.on(OrderBookEventType.ORDER_FILLED, onFilled);
+        emitter.onAny(onAny);
+
+        const event = accepted(1);
+        emitter.emit(event);
+
+        expect(onAccepted).toHaveBeenCalledWith(event);
+        expect(onAny).toHaveBeenCalledWith(event);
+        expect(onFilled).not.toHaveBeenCalled();
+    });
+
+    it('should stop calling a listener once it is removed', () => {
+        const listener = jest.fn();
+        const unsubscribe = emitter.on(OrderBookEventType.ORDER_ACCEPTED, listener);
+
+        unsubscribe();
+        emitter.emit(accepted(1));
+
+        expect(listener).not.toHaveBeenCalled();
+        expect(emitter.hasListeners(OrderBookEventType.ORDER_ACCEPTED)).toBe(false);
+    });
+
+    it('should keep notifying other listeners when one throws', () => {
+        const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const listener = jest.fn();
+        emitter.on(OrderBookEventType.ORDER_ACCEPTED, () => {
+            throw new Error('listener failed');
+        });
+        emitter.on(OrderBookEventType.ORDER_ACCEPTED, listener);
+
+        expect(() => emitter.emit(accepted(1))).not.toThrow();
+        expect(listener).toHaveBeenCalled();
+        consoleError.mockRestore();
+    });
+});
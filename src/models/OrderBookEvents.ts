@@ -0,0 +1,147 @@
+import {Order} from './Order';
+import type {OrderMatch} from './OrderBook';
+
+export enum OrderBookEventType {
+    ORDER_ACCEPTED = 'order_accepted',
+    ORDER_RESTED = 'order_rested',
+    ORDER_PARTIALLY_FILLED = 'order_partially_filled',
+    ORDER_FILLED = 'order_filled',
+    ORDER_CANCELLED = 'order_cancelled',
+    TRADE_EXECUTED = 'trade_executed',
+}
+
+export enum CancelReason {
+    /** Cancelled on request, by itself or as part of a group cancellation */
+    REQUESTED = 'requested',
+    SELF_TRADE = 'self_trade',
+    /** Another member of its one-cancels-other group traded, triggered or left the book */
+    GROUP = 'group',
+    /** Market, IOC or FOK remainder that could not be filled */
+    UNFILLED = 'unfilled',
+    EXPIRED = 'expired',
+    /** The client stopped sending heartbeats */
+    DISCONNECTED = 'disconnected',
+}
+
+interface OrderBookEventBase {
+    symbol: string;
+    /** Increases by one with every event of the book, so a subscriber can spot events it missed */
+    sequence: number;
+}
+
+export interface OrderAcceptedEvent extends OrderBookEventBase {
+    type: OrderBookEventType.ORDER_ACCEPTED;
+    order: Order;
+}
+
+export interface OrderRestedEvent extends OrderBookEventBase {
+    type: OrderBookEventType.ORDER_RESTED;
+    order: Order;
+}
+
+interface OrderFillEventBase extends OrderBookEventBase {
+    /** Its amount is what is left open after the match */
+    order: Order;
+    match: OrderMatch;
+}
+
+export interface OrderPartiallyFilledEvent extends OrderFillEventBase {
+    type: OrderBookEventType.ORDER_PARTIALLY_FILLED;
+}
+
+export interface OrderFilledEvent extends OrderFillEventBase {
+    type: OrderBookEventType.ORDER_FILLED;
+}
+
+export interface OrderCancelledEvent extends OrderBookEventBase {
+    type: OrderBookEventType.ORDER_CANCELLED;
+    /** Its amount is the open amount that was cancelled */
+    order: Order;
+    reason: CancelReason;
+}
+
+export interface TradeExecutedEvent extends OrderBookEventBase {
+    type: OrderBookEventType.TRADE_EXECUTED;
+    match: OrderMatch;
+}
+
+export type OrderBookEvent =
+    | OrderAcceptedEvent
+    | OrderRestedEvent
+    | OrderPartiallyFilledEvent
+    | OrderFilledEvent
+    | OrderCancelledEvent
+    | TradeExecutedEvent;
+
+export type OrderBookEventOf<T extends OrderBookEventType> = Extract<OrderBookEvent, {type: T}>;
+
+/** An event as the book raises it, before it is numbered */
+export type OrderBookEventData = {
+    [T in OrderBookEventType]: Omit<OrderBookEventOf<T>, 'symbol' | 'sequence'>;
+}[OrderBookEventType];
+
+export type OrderBookEventListener<T extends OrderBookEventType = OrderBookEventType> = (event: OrderBookEventOf<T>) => void;
+
+/** The listeners of each event type, typed by it */
+type OrderBookEventListeners = {
+    [T in OrderBookEventType]: Set<OrderBookEventListener<T>>;
+};
+
+/**
+ * Synchronous, typed emitter for the events of one order book. Listeners run inside the book's
+ * operation, so a listener that throws is logged and skipped rather than interrupting matching.
+ */
+export class OrderBookEventEmitter {
+    private readonly listeners: OrderBookEventListeners = {
+        [OrderBookEventType.ORDER_ACCEPTED]: new Set(),
+        [OrderBookEventType.ORDER_RESTED]: new Set(),
+        [OrderBookEventType.ORDER_PARTIALLY_FILLED]: new Set(),
+        [OrderBookEventType.ORDER_FILLED]: new Set(),
+        [OrderBookEventType.ORDER_CANCELLED]: new Set(),
+        [OrderBookEventType.TRADE_EXECUTED]: new Set()
+    };
+    private readonly anyListeners = new Set<OrderBookEventListener>();
+
+    /**
+     * Returns a function that removes the listener again
+     */
+    public on<T extends OrderBookEventType>(type: T, listener: OrderBookEventListener<T>): () => void {
+        this.listeners[type].add(listener);
+
+        return () => this.off(type, listener);
+    }
+
+    public off<T extends OrderBookEventType>(type: T, listener: OrderBookEventListener<T>): void {
+        this.listeners[type].delete(listener);
+    }
+
+    /**
+     * Subscribes to every event type; returns a function that removes the listener again
+     */
+    public onAny(listener: OrderBookEventListener): () => void {
+        this.anyListeners.add(listener);
+        return () => {
+            this.anyListeners.delete(listener);
+        };
+    }
+
+    public hasListeners(type: OrderBookEventType): boolean {
+        return this.anyListeners.size > 0 || this.listeners[type].size > 0;
+    }
+
+    public emit(event: OrderBookEvent): void {
+        this.dispatch(event.type, event);
+    }
+
+    private dispatch<T extends OrderBookEventType>(type: T, event: OrderBookEventOf<T>): void {
+        const listeners: Array<(event: OrderBookEventOf<T>) => void> = [...this.listeners[type], ...this.anyListeners];
+
+        for (const listener of listeners) {
+            try {
+                listener(event);
+            } catch (err) {
+                console.error(`Error in ${event.type} listener:`, err);
+            }
+        }
+    }
+}
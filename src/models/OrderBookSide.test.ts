@@ -0,0 +1,59 @@
+import {Order, OrderType} from './Order';
+import {OrderBookSide} from './OrderBookSide';
+
+describe('OrderBookSide', () => {
+    const clientId = 'test-client';
+    const order = (type: OrderType, price: number, timestamp: number, id: string) =>
+        new Order({id, type, price, amount: 1, timestamp, clientId});
+
+    it('should keep buys by highest price, then timestamp, then ID', () => {
+        const side = new OrderBookSide(OrderType.BUY);
+        side.add(order(OrderType.BUY, 100, 2, 'c'));
+        side.add(order(OrderType.BUY, 101, 3, 'd'));
+        side.add(order(OrderType.BUY, 100, 1, 'b'));
+        side.add(order(OrderType.BUY, 100, 1, 'a'));
+
+        expect(side.toArray().map(o => o.id)).toEqual(['d', 'a', 'b', 'c']);
+        expect(side.getLevels().map(level => level.price)).toEqual([101, 100]);
+    });
+
+    it('should keep sells by lowest price first', () => {
+        const side = new OrderBookSide(OrderType.SELL);
+        side.add(order(OrderType.SELL, 102, 1, 'a'));
+        side.add(order(OrderType.SELL, 100, 2, 'b'));
+
+        expect(side.best()?.id).toBe('b');
+    });
+
+    it('should drop empty levels when orders are removed', () => {
+        const side = new OrderBookSide(OrderType.SELL);
+        side.add(order(OrderType.SELL, 100, 1, 'a'));
+        side.add(order(OrderType.SELL, 101, 1, 'b'));
+
+        expect(side.remove('a')?.id).toBe('a');
+        expect(side.remove('a')).toBeUndefined();
+        expect(side.getLevels().map(level => level.price)).toEqual([101]);
+        expect(side.size).toBe(1);
+    });
+
+    it('should move an order that changed while on the book', () => {
+        const side = new OrderBookSide(OrderType.BUY);
+        const moving = order(OrderType.BUY, 100, 1, 'a');
+        side.add(moving);
+        side.add(order(OrderType.BUY, 100, 2, 'b'));
+
+        moving.reprice(99);
+        side.reposition(moving);
+
+        expect(side.toArray().map(o => [o.id, o.price])).toEqual([['b', 100], ['a', 99]]);
+        expect(side.getLevel(100)?.orders).toHaveLength(1);
+    });
+
+    it('should reject an order that is already on the side', () => {
+        const side = new OrderBookSide(OrderType.BUY);
+        const resting = order(OrderType.BUY, 100, 1, 'a');
+        side.add(resting);
+
+        expect(() => side.add(resting)).toThrow();
+    });
+});
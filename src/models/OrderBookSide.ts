@@ -0,0 +1,165 @@
+import {Order, OrderType} from './Order';
+
+export interface PriceLevel {
+    price: number;
+    /** Oldest first: ordered by timestamp, then ID */
+    orders: Order[];
+}
+
+/**
+ * One side of an order book. Price levels are kept sorted best first and each holds a FIFO queue,
+ * so the head of the first level is always the next order to match. An index remembers the price
+ * and timestamp every order was filed under, which lets orders be found and removed by ID with a
+ * binary search even after their own price or timestamp has changed.
+ */
+export class OrderBookSide {
+    private readonly levels: PriceLevel[] = [];
+    private readonly index = new Map<string, {order: Order; price: number; timestamp: number}>();
+    private readonly peggedIds = new Set<string>();
+
+    constructor(public readonly type: OrderType) {
+    }
+
+    public get size(): number {
+        return this.index.size;
+    }
+
+    public get(orderId: string): Order | undefined {
+        return this.index.get(orderId)?.order;
+    }
+
+    public best(): Order | undefined {
+        return this.levels[0]?.orders[0];
+    }
+
+    public add(order: Order): void {
+        if (this.index.has(order.id)) {
+            throw new Error(`Order ${order.id} is already on the ${this.type} side`);
+        }
+
+        const levelIndex = this.findLevelIndex(order.price);
+        let level = this.levels[levelIndex];
+        if (!level || level.price !== order.price) {
+            level = {price: order.price, orders: []};
+            this.levels.splice(levelIndex, 0, level);
+        }
+
+        level.orders.splice(this.findQueueIndex(level.orders, order.timestamp, order.id), 0, order);
+        this.index.set(order.id, {order, price: order.price, timestamp: order.timestamp});
+        if (order.isPegged()) {
+            this.peggedIds.add(order.id);
+        }
+    }
+
+    public remove(orderId: string): Order | undefined {
+        const entry = this.index.get(orderId);
+        if (!entry) {
+            return undefined;
+        }
+
+        const levelIndex = this.findLevelIndex(entry.price);
+        const level = this.levels[levelIndex];
+        level.orders.splice(this.findQueueIndex(level.orders, entry.timestamp, orderId), 1);
+        if (level.orders.length === 0) {
+            this.levels.splice(levelIndex, 1);
+        }
+
+        this.index.delete(orderId);
+        this.peggedIds.delete(orderId);
+        return entry.order;
+    }
+
+    /**
+     * Files an order again after its price or timestamp changed while it was on the book
+     */
+    public reposition(order: Order): void {
+        this.remove(order.id);
+        this.add(order);
+    }
+
+    public getLevel(price: number): PriceLevel | undefined {
+        const level = this.levels[this.findLevelIndex(price)];
+        return level && level.price === price ? level : undefined;
+    }
+
+    public getLevels(): readonly PriceLevel[] {
+        return this.levels;
+    }
+
+    public getPeggedOrders(): Order[] {
+        return [...this.peggedIds].map(orderId => this.index.get(orderId)!.order);
+    }
+
+    /**
+     * Best price among orders that are not pegged, which is what pegged orders follow
+     */
+    public bestUnpeggedPrice(): number | undefined {
+        if (this.peggedIds.size === 0) {
+            return this.best()?.price;
+        }
+
+        for (const order of this) {
+            if (!order.isPegged()) {
+                return order.price;
+            }
+        }
+        return undefined;
+    }
+
+    public toArray(): Order[] {
+        return [...this];
+    }
+
+    public clear(): void {
+        this.levels.length = 0;
+        this.index.clear();
+        this.peggedIds.clear();
+    }
+
+    public *[Symbol.iterator](): Iterator<Order> {
+        for (const level of this.levels) {
+            yield* level.orders;
+        }
+    }
+
+    /**
+     * First level that is not better than the price, i.e. where a level at that price is or would go
+     */
+    private findLevelIndex(price: number): number {
+        let low = 0;
+        let high = this.levels.length;
+
+        while (low < high) {
+            const middle = (low + high) >>> 1;
+            const levelPrice = this.levels[middle].price;
+            const isBetter = this.type === OrderType.BUY ? levelPrice > price : levelPrice < price;
+            if (isBetter) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+
+        return low;
+    }
+
+    private findQueueIndex(orders: Order[], timestamp: number, orderId: string): number {
+        let low = 0;
+        let high = orders.length;
+
+        while (low < high) {
+            const middle = (low + high) >>> 1;
+            // Compare by the timestamp each order was filed under, which is what the queue is sorted by
+            const order = orders[middle];
+            const filedAt = this.index.get(order.id)!.timestamp;
+            const isEarlier = filedAt < timestamp || (filedAt === timestamp && order.id.localeCompare(orderId) < 0);
+            if (isEarlier) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+
+        return low;
+    }
+}
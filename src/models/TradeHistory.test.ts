@@ -0,0 +1,91 @@
+import {Order, OrderType} from './Order';
+import {OrderMatch} from './OrderBook';
+import {TradeHistory} from './TradeHistory';
+import {FeeCurrency, FeeRole} from './FeeEngine';
+
+describe('TradeHistory', () => {
+    let history: TradeHistory;
+    let matchCount = 0;
+
+    const createMatch = (timestamp: number, buyClientId = 'buyer', sellClientId = 'seller'): OrderMatch => ({
+        id: `match-${++matchCount}`,
+        buyOrder: new Order({type: OrderType.BUY, price: 100, amount: 10, clientId: buyClientId}),
+        sellOrder: new Order({type: OrderType.SELL, price: 100, amount: 10, clientId: sellClientId}),
+        matchedAmount: 1,
+        price: 100,
+        timestamp,
+        fees: {
+            buy: {role: FeeRole.TAKER, rateBps: 20, amount: 1, currency: FeeCurrency.QUOTE},
+            sell: {role: FeeRole.MAKER, rateBps: -5, amount: 0, currency: FeeCurrency.QUOTE}
+        }
+    });
+
+    beforeEach(() => {
+        history = new TradeHistory();
+    });
+
+    it('should keep the IDs and fees of both sides instead of the orders', () => {
+        const match = createMatch(1000);
+
+        const trade = history.record(match);
+
+        expect(trade).toEqual({
+            id: match.id,
+            sequence: 1,
+            price: 100,
+            amount: 1,
+            timestamp: 1000,
+            buyOrderId: match.buyOrder.id,
+            sellOrderId: match.sellOrder.id,
+            buyClientId: 'buyer',
+            sellClientId: 'seller',
+            fees: match.fees
+        });
+    });
+
+    it('should page through matching trades newest first', () => {
+        for (let i = 1; i <= 5; i++) {
+            history.record(createMatch(i * 1000));
+        }
+
+        const first = history.query({limit: 2});
+        const second = history.query({limit: 2, cursor: first.nextCursor});
+        const last = history.query({limit: 2, cursor: second.nextCursor});
+
+        expect(first.trades.map(trade => trade.timestamp)).toEqual([5000, 4000]);
+        expect(second.trades.map(trade => trade.timestamp)).toEqual([3000, 2000]);
+        expect(last.trades.map(trade => trade.timestamp)).toEqual([1000]);
+        expect(last.nextCursor).toBeUndefined();
+    });
+
+    it('should filter by client, order and time range', () => {
+        const own = history.record(createMatch(1000, 'alice', 'bob'));
+        history.record(createMatch(2000, 'carol', 'alice'));
+        history.record(createMatch(3000, 'carol', 'dave'));
+
+        expect(history.query({clientId: 'alice'}).trades).toHaveLength(2);
+        expect(history.query({orderId: own.sellOrderId}).trades.map(trade => trade.id)).toEqual([own.id]);
+        expect(history.query({from: 2000, to: 3000}).trades.map(trade => trade.timestamp)).toEqual([2000]);
+    });
+
+    it('should drop the oldest trades beyond the size and age limits', () => {
+        history = new TradeHistory({maxTrades: 3, retentionMs: 5000});
+        [1000, 2000, 3000, 4000].forEach(timestamp => history.record(createMatch(timestamp)));
+
+        expect(history.query().trades.map(trade => trade.timestamp)).toEqual([4000, 3000, 2000]);
+
+        history.record(createMatch(8000));
+
+        expect(history.query().trades.map(trade => trade.timestamp)).toEqual([8000, 4000, 3000]);
+
+        history.record(createMatch(9500));
+
+        expect(history.query().trades.map(trade => trade.timestamp)).toEqual([9500, 8000]);
+    });
+
+    it('should reject invalid cursors, limits and time ranges', () => {
+        expect(() => history.query({cursor: 'abc'})).toThrow(expect.objectContaining({code: 'INVALID_CURSOR'}));
+        expect(() => history.query({limit: 0})).toThrow(expect.objectContaining({code: 'INVALID_LIMIT'}));
+        expect(() => history.query({from: 2000, to: 1000})).toThrow(expect.objectContaining({code: 'INVALID_TIME_RANGE'}));
+    });
+});
@@ -0,0 +1,184 @@
+import type {OrderMatch} from './OrderBook';
+import type {MatchFees} from './FeeEngine';
+
+export const DEFAULT_MAX_TRADES = 10000;
+export const DEFAULT_TRADE_RETENTION_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_TRADE_PAGE_SIZE = 100;
+export const MAX_TRADE_PAGE_SIZE = 1000;
+
+export class TradeHistoryError extends Error {
+    constructor(message: string, public readonly code: string) {
+        super(message);
+        this.name = 'TradeHistoryError';
+    }
+}
+
+/**
+ * A trade as kept in the history: the IDs of both sides instead of the orders themselves
+ */
+export interface TradeRecord {
+    id: string;
+    /** Position in this node's history; what cursors refer to */
+    sequence: number;
+    price: number;
+    amount: number;
+    timestamp: number;
+    buyOrderId: string;
+    sellOrderId: string;
+    buyClientId: string;
+    sellClientId: string;
+    fees: MatchFees;
+}
+
+export interface TradeHistoryOptions {
+    /** Most trades kept; the oldest are dropped first */
+    maxTrades?: number;
+    /** How long trades are kept, measured against the timestamp of the newest trade */
+    retentionMs?: number;
+}
+
+/**
+ * Filters are combined; the time range includes from and excludes to
+ */
+export interface TradeQuery {
+    clientId?: string;
+    orderId?: string;
+    from?: number;
+    to?: number;
+    /** nextCursor of the previous page */
+    cursor?: string;
+    limit?: number;
+}
+
+export interface TradePage {
+    /** Newest first */
+    trades: TradeRecord[];
+    /** Set when older trades match the query */
+    nextCursor?: string;
+}
+
+/**
+ * Bounded, append-only record of the trades of one order book. It belongs to the node that executed
+ * the trades and is not part of the replicated book state.
+ */
+export class TradeHistory {
+    /** Oldest first, with strictly increasing sequence numbers */
+    private readonly trades: TradeRecord[] = [];
+    private sequence = 0;
+
+    constructor(private readonly options: TradeHistoryOptions = {}) {
+    }
+
+    public get size(): number {
+        return this.trades.length;
+    }
+
+    public record(match: OrderMatch): TradeRecord {
+        const trade: TradeRecord = {
+            id: match.id,
+            sequence: ++this.sequence,
+            price: match.price,
+            amount: match.matchedAmount,
+            timestamp: match.timestamp,
+            buyOrderId: match.buyOrder.id,
+            sellOrderId: match.sellOrder.id,
+            buyClientId: match.buyOrder.clientId,
+            sellClientId: match.sellOrder.clientId,
+            fees: match.fees
+        };
+
+        this.trades.push(trade);
+        this.prune(trade.timestamp);
+        return trade;
+    }
+
+    public query(query: TradeQuery = {}): TradePage {
+        const limit = query.limit ?? DEFAULT_TRADE_PAGE_SIZE;
+        if (!Number.isSafeInteger(limit) || limit <= 0 || limit > MAX_TRADE_PAGE_SIZE) {
+            throw new TradeHistoryError(`Limit must be between 1 and ${MAX_TRADE_PAGE_SIZE}`, 'INVALID_LIMIT');
+        }
+
+        const isValidTime = (time?: number) => time === undefined || Number.isSafeInteger(time);
+        if (!isValidTime(query.from) || !isValidTime(query.to) ||
+            (query.from !== undefined && query.to !== undefined && query.from > query.to)) {
+            throw new TradeHistoryError('Invalid time range', 'INVALID_TIME_RANGE');
+        }
+
+        const before = query.cursor === undefined ? Infinity : this.parseCursor(query.cursor);
+        const trades: TradeRecord[] = [];
+
+        for (let i = this.findIndexBefore(before); i >= 0; i--) {
+            const trade = this.trades[i];
+            if (!this.matchesQuery(trade, query)) {
+                continue;
+            }
+            if (trades.length === limit) {
+                return {trades, nextCursor: String(trades[trades.length - 1].sequence)};
+            }
+            trades.push({...trade, fees: {buy: {...trade.fees.buy}, sell: {...trade.fees.sell}}});
+        }
+
+        return {trades};
+    }
+
+    /**
+     * Lots traded per order over the trades still kept
+     */
+    public getMatchedAmounts(): Map<string, number> {
+        const amounts = new Map<string, number>();
+        for (const trade of this.trades) {
+            for (const orderId of [trade.buyOrderId, trade.sellOrderId]) {
+                amounts.set(orderId, (amounts.get(orderId) ?? 0) + trade.amount);
+            }
+        }
+        return amounts;
+    }
+
+    private matchesQuery(trade: TradeRecord, query: TradeQuery): boolean {
+        return (query.from === undefined || trade.timestamp >= query.from) &&
+            (query.to === undefined || trade.timestamp < query.to) &&
+            (query.clientId === undefined || trade.buyClientId === query.clientId || trade.sellClientId === query.clientId) &&
+            (query.orderId === undefined || trade.buyOrderId === query.orderId || trade.sellOrderId === query.orderId);
+    }
+
+    private prune(now: number): void {
+        const maxTrades = this.options.maxTrades ?? DEFAULT_MAX_TRADES;
+        const cutoff = now - (this.options.retentionMs ?? DEFAULT_TRADE_RETENTION_MS);
+
+        let excess = Math.max(0, this.trades.length - maxTrades);
+        while (excess < this.trades.length && this.trades[excess].timestamp < cutoff) {
+            excess++;
+        }
+
+        if (excess > 0) {
+            this.trades.splice(0, excess);
+        }
+    }
+
+    private parseCursor(cursor: string): number {
+        const sequence = Number(cursor);
+        if (!/^\d+$/.test(cursor) || !Number.isSafeInteger(sequence)) {
+            throw new TradeHistoryError(`Invalid cursor: ${cursor}`, 'INVALID_CURSOR');
+        }
+        return sequence;
+    }
+
+    /**
+     * Index of the newest trade with a sequence below the given one, or -1
+     */
+    private findIndexBefore(sequence: number): number {
+        let low = 0;
+        let high = this.trades.length;
+
+        while (low < high) {
+            const middle = (low + high) >>> 1;
+            if (this.trades[middle].sequence < sequence) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+
+        return low - 1;
+    }
+}
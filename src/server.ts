@@ -1,5 +1,7 @@
 import {getConfig} from './config';
-import {OrderBook} from './models/OrderBook';
+import {MarketRegistry} from './models/MarketRegistry';
+import {OrderBookEvent, OrderBookEventType} from './models/OrderBookEvents';
+import {formatUnits} from './models/FixedPoint';
 import {P2PService, P2PServiceOptions} from './services/P2PService';
 import {LoggerService, LogLevel} from './services/LoggerService';
 
@@ -12,7 +14,13 @@ const logger = LoggerService.getInstance({
     minLevel: LogLevel.INFO,
 });
 
-const orderbook = new OrderBook();
+const markets = new MarketRegistry(config.markets, {
+    selfTradePrevention: config.selfTradePrevention,
+    priceBandBps: config.priceBandBps,
+    circuitBreaker: config.circuitBreaker,
+    fees: config.fees,
+    accounts: config.accounts
+});
 
 const p2pOptions: P2PServiceOptions = {
     grapeUrl: config.grapeUrl,
@@ -20,32 +28,49 @@ const p2pOptions: P2PServiceOptions = {
     port: config.nodePort,
     clientId: config.clientId,
     logDir: './logs',
+    adminClientIds: config.adminClientIds,
+    disconnectTimeoutMs: config.disconnectTimeoutMs,
+    auditIntervalMs: config.auditIntervalMs,
+    tls: config.tls,
 };
 
-const p2pService = new P2PService(p2pOptions, orderbook, true);
+const p2pService = new P2PService(p2pOptions, markets, true);
+
+function describeEvent(event: OrderBookEvent): string {
+    const {pricePrecision, amountPrecision} = markets.getSpec(event.symbol);
+    const price = (units: number) => formatUnits(units, pricePrecision);
+    const amount = (units: number) => formatUnits(units, amountPrecision);
 
-function displayOrderbookSummary(): void {
-    const state = orderbook.getState();
-    logger.info('\n==== ORDERBOOK SUMMARY ====');
-    logger.info(`Buy Orders: ${state.buyOrders.length}`);
-    logger.info(`Sell Orders: ${state.sellOrders.length}`);
-    logger.info(`Total Matches: ${state.matches.length}`);
-    logger.info('============================\n');
+    switch (event.type) {
+        case OrderBookEventType.TRADE_EXECUTED:
+            return `trade ${amount(event.match.matchedAmount)} @ $${price(event.match.price)}`;
+        case OrderBookEventType.ORDER_CANCELLED:
+            return `${event.order.id.slice(0, 8)} cancelled (${event.reason}), ${amount(event.order.amount)} open`;
+        default:
+            return `${event.order.id.slice(0, 8)} ${event.order.type} ${amount(event.order.amount)} @ $${price(event.order.price)}`;
+    }
+}
+
+function subscribeToMarkets(): void {
+    markets.getSymbols().forEach(symbol => {
+        markets.getOrderBook(symbol).events.onAny(event => {
+            logger.info(`[${event.symbol} #${event.sequence}] ${event.type}: ${describeEvent(event)}`);
+        });
+    });
 }
 
 async function main(): Promise<void> {
     logger.info(`Starting server with ID: ${config.clientId}`);
     logger.info(`Listening on port: ${config.nodePort}`);
+    logger.info(`Serving markets: ${markets.getSymbols().join(', ')}`);
+
+    subscribeToMarkets();
 
     try {
         await p2pService.start();
         logger.info('P2P service started, connected to Grape');
         logger.info(`Announcing service: ${config.serviceName}`);
 
-        setInterval(() => {
-            displayOrderbookSummary();
-        }, 10000);
-
     } catch (err) {
         logger.error('Error starting server', err as Error);
         process.exit(1);
@@ -1,6 +1,12 @@
 import {P2PService, ServiceAction} from './P2PService';
 import {OrderBook, OrderMatch} from '../models/OrderBook';
+import {MarketRegistry} from '../models/MarketRegistry';
+import {TradingPhase} from '../models/Auction';
+import {FeeCurrency, FeeRole} from '../models/FeeEngine';
+import {CancelReason} from '../models/OrderBookEvents';
+import {AuditCheck} from '../models/BookAuditor';
 import {Order, OrderType} from '../models/Order';
+import {PeerRPCClient} from 'grenache-nodejs-http';
 import path from 'path';
 import os from 'os';
 import {LoggerService} from './LoggerService';
@@ -14,6 +20,8 @@ jest.mock('./LoggerService');
 describe('P2PService', () => {
     let p2pService: P2PService;
     let mockOrderBook: jest.Mocked<OrderBook>;
+    let markets: MarketRegistry;
+    const symbol = 'BTC/USD';
     const tempDir = path.join(os.tmpdir(), 'p2p-service-test');
     const LOCALHOST_URL: string = 'http://127.0.0.1:30001';
     const mockOptions = {
@@ -44,11 +52,19 @@ describe('P2PService', () => {
         sellOrder: mockSellOrder,
         matchedAmount: 5,
         price: 100,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        fees: {
+            buy: {role: FeeRole.TAKER, rateBps: 20, amount: 1, currency: FeeCurrency.QUOTE},
+            sell: {role: FeeRole.MAKER, rateBps: 10, amount: 1, currency: FeeCurrency.QUOTE}
+        }
     };
 
     beforeEach(() => {
         jest.clearAllMocks();
+        (Order.isValidSymbol as unknown as jest.Mock).mockReturnValue(true);
+        Object.assign(mockBuyOrder, {symbol});
+        Object.assign(mockSellOrder, {symbol});
+
         mockOrderBook = new OrderBook() as jest.Mocked<OrderBook>;
         mockOrderBook.addOrder = jest.fn().mockReturnValue({
             order: mockBuyOrder,
@@ -56,11 +72,17 @@ describe('P2PService', () => {
             remainingOrder: null
         });
         mockOrderBook.cancelOrder = jest.fn().mockReturnValue(mockBuyOrder);
+        Object.assign(mockOrderBook, {
+            trades: {query: jest.fn().mockReturnValue({trades: []})},
+            candles: {add: jest.fn()}
+        });
         mockOrderBook.getState = jest.fn().mockReturnValue({
             buyOrders: [mockBuyOrder],
             sellOrders: [mockSellOrder],
             matches: [mockOrderMatch]
         });
+        markets = new MarketRegistry();
+        markets.addMarket(symbol, mockOrderBook);
 
         // services mock
         (Order.fromObject as jest.Mock).mockImplementation((data) => {
@@ -79,7 +101,7 @@ describe('P2PService', () => {
 
     describe('Core P2P functionality', () => {
         test('submitting an order adds it to the orderbook and attempts to broadcast', async () => {
-            p2pService = new P2PService(mockOptions, mockOrderBook, false);
+            p2pService = new P2PService(mockOptions, markets, false);
 
             // Mock the requestWithTimeout method
             // @ts-ignore - private method mock
@@ -102,7 +124,7 @@ describe('P2PService', () => {
         });
 
         test('should handle and recover from network errors during order submission', async () => {
-            p2pService = new P2PService(mockOptions, mockOrderBook, false);
+            p2pService = new P2PService(mockOptions, markets, false);
 
             // Mock the requestWithTimeout method to simulate network error
             // @ts-ignore - private method mock
@@ -121,26 +143,515 @@ describe('P2PService', () => {
         });
 
         test('should get orderbook state properly', () => {
-            p2pService = new P2PService(mockOptions, mockOrderBook, false);
+            p2pService = new P2PService(mockOptions, markets, false);
+            const recentTrades = [{id: mockOrderMatch.id, fees: mockOrderMatch.fees}];
+            const query = jest.fn().mockReturnValue({trades: recentTrades});
+            Object.assign(mockOrderBook, {trades: {query}});
 
-            const state = p2pService.getOrderbookState();
+            const state = p2pService.getOrderbookState(symbol);
 
             expect(mockOrderBook.getState).toHaveBeenCalled();
 
             expect(state).toMatchObject({
+                symbol,
                 buyOrders: expect.any(Array),
                 sellOrders: expect.any(Array),
-                matches: expect.any(Array)
+                matches: expect.any(Array),
+                recentTrades
             });
         });
 
         test('should cancel an order locally', async () => {
-            p2pService = new P2PService(mockOptions, mockOrderBook, true);
+            p2pService = new P2PService(mockOptions, markets, true);
 
-            const result = await p2pService.cancelOrder('test-order-id');
+            const result = await p2pService.cancelOrder(symbol, 'test-order-id');
 
             expect(mockOrderBook.cancelOrder).toHaveBeenCalledWith('test-order-id');
             expect(result).toBe(mockBuyOrder);
         });
+
+        test('should cancel an order group and broadcast its ID', async () => {
+            p2pService = new P2PService(mockOptions, markets, false);
+            mockOrderBook.cancelGroup = jest.fn().mockReturnValue([mockBuyOrder, mockSellOrder]);
+            // @ts-ignore - private property mock
+            p2pService.peer = Object.create(PeerRPCClient.prototype);
+            // @ts-ignore - private method mock
+            p2pService.requestWithTimeout = jest.fn().mockResolvedValue({status: 'success'});
+
+            const result = await p2pService.cancelGroup(symbol, 'oco-1');
+
+            expect(result).toEqual([mockBuyOrder, mockSellOrder]);
+            // @ts-ignore - accessing private method
+            expect(p2pService.requestWithTimeout).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    action: ServiceAction.CANCEL_GROUP,
+                    data: {symbol, groupId: 'oco-1'}
+                })
+            );
+        });
+
+        test('should report a cancellation that a peer rejects', async () => {
+            p2pService = new P2PService(mockOptions, markets, false);
+            // @ts-ignore - private property mock
+            p2pService.peer = Object.create(PeerRPCClient.prototype);
+            // @ts-ignore - private method mock
+            p2pService.requestWithTimeout = jest.fn().mockResolvedValue({status: 'rejected', code: 'UNKNOWN_MARKET', reason: 'no'});
+
+            await expect(p2pService.cancelOrder(symbol, 'test-order-id')).rejects.toMatchObject({code: 'REJECTED_BY_PEER'});
+            expect(mockOrderBook.cancelOrder).toHaveBeenCalledWith('test-order-id');
+        });
+
+        test('should expire orders and broadcast each expiry', async () => {
+            p2pService = new P2PService(mockOptions, markets, false);
+            mockOrderBook.expireOrders = jest.fn().mockReturnValue([mockBuyOrder]);
+            // @ts-ignore - private property mock
+            p2pService.peer = Object.create(PeerRPCClient.prototype);
+
+            // @ts-ignore - private method mock
+            p2pService.requestWithTimeout = jest.fn().mockResolvedValue({status: 'success'});
+            // @ts-ignore - accessing private method
+            const expired = await p2pService.sweepExpiredOrders(5000);
+
+            expect(mockOrderBook.expireOrders).toHaveBeenCalledWith(5000);
+            expect(expired).toEqual([mockBuyOrder]);
+            // @ts-ignore - accessing private method
+            expect(p2pService.requestWithTimeout).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    action: ServiceAction.EXPIRE_ORDER,
+                    data: {symbol, orderId: mockBuyOrder.id}
+                })
+            );
+        });
+
+        test('should amend an order against its current version and broadcast the amendment', async () => {
+            p2pService = new P2PService(mockOptions, markets, false);
+            mockOrderBook.findOrderById = jest.fn().mockReturnValue(mockBuyOrder);
+            mockOrderBook.amendOrder = jest.fn().mockReturnValue({order: mockBuyOrder, matches: [], remainingOrder: mockBuyOrder});
+            // @ts-ignore - private property mock
+            p2pService.peer = Object.create(PeerRPCClient.prototype);
+            // @ts-ignore - private method mock
+            p2pService.requestWithTimeout = jest.fn().mockResolvedValue({status: 'success'});
+
+            await p2pService.amendOrder(symbol, mockBuyOrder.id, {amount: 4});
+
+            expect(mockOrderBook.amendOrder).toHaveBeenCalledWith(mockBuyOrder.id, {amount: 4}, expect.any(Number), mockBuyOrder.version);
+            // @ts-ignore - accessing private method
+            expect(p2pService.requestWithTimeout).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    action: ServiceAction.AMEND_ORDER,
+                    data: expect.objectContaining({symbol, orderId: mockBuyOrder.id, expectedVersion: mockBuyOrder.version})
+                })
+            );
+        });
+
+        test('should answer a remote amendment with the amended order', async () => {
+            p2pService = new P2PService(mockOptions, markets, true);
+            const result = {order: mockBuyOrder, matches: [], remainingOrder: mockBuyOrder, unfilledAmount: 0};
+            mockOrderBook.findOrderById = jest.fn().mockReturnValue(undefined);
+            mockOrderBook.amendOrder = jest.fn().mockReturnValue(result);
+            const handler = {reply: jest.fn()};
+
+            // @ts-ignore - accessing private method
+            await p2pService.handleRequest('rid', 'key', {
+                clientId: 'peer',
+                action: ServiceAction.AMEND_ORDER,
+                data: {symbol, orderId: 'order-1', changes: {amount: 4}, timestamp: 1000}
+            }, handler);
+
+            expect(mockOrderBook.amendOrder).toHaveBeenCalledWith('order-1', {price: undefined, amount: 4}, 1000, undefined);
+            expect(handler.reply).toHaveBeenCalledWith(null, {status: 'success', result});
+        });
+
+        test('should answer remote orders that break the market rules with their error code', async () => {
+            const strictMarkets = new MarketRegistry();
+            strictMarkets.addMarket({...MarketRegistry.defaultSpec(symbol), tickSize: 3}, mockOrderBook);
+            p2pService = new P2PService(mockOptions, strictMarkets, true);
+            Object.defineProperty(mockSellOrder, 'price', {value: 100, configurable: true});
+            Object.defineProperty(mockSellOrder, 'amount', {value: 5, configurable: true});
+            mockSellOrder.isActive = jest.fn().mockReturnValue(true);
+            const handler = {reply: jest.fn()};
+
+            // @ts-ignore - accessing private method
+            await p2pService.handleRequest('rid', 'key', {
+                clientId: 'peer',
+                action: ServiceAction.SUBMIT_ORDER,
+                data: {order: {type: 'sell'}}
+            }, handler);
+
+            expect(mockOrderBook.addOrder).not.toHaveBeenCalled();
+            expect(handler.reply).toHaveBeenCalledWith(null, expect.objectContaining({
+                status: 'rejected',
+                code: 'INVALID_TICK_SIZE'
+            }));
+        });
+
+        test('should answer depth requests with the aggregated book and market precision', async () => {
+            p2pService = new P2PService(mockOptions, markets, true);
+            const depth = {bids: [{price: 100, amount: 5, orderCount: 1}], asks: [], bestBid: 100};
+            mockOrderBook.getDepth = jest.fn().mockReturnValue(depth);
+            const handler = {reply: jest.fn()};
+
+            // @ts-ignore - accessing private method
+            await p2pService.handleRequest('rid', 'key', {
+                clientId: 'dashboard',
+                action: ServiceAction.GET_DEPTH,
+                data: {symbol, levels: 5}
+            }, handler);
+
+            expect(mockOrderBook.getDepth).toHaveBeenCalledWith(5);
+            expect(handler.reply).toHaveBeenCalledWith(null, {
+                status: 'success',
+                depth: expect.objectContaining({symbol, pricePrecision: expect.any(Number), ...depth})
+            });
+        });
+
+        test('should answer trade queries with a page of the trade history', async () => {
+            p2pService = new P2PService(mockOptions, markets, true);
+            const page = {trades: [{id: 'match-1', sequence: 1}], nextCursor: '1'};
+            const query = jest.fn().mockReturnValue(page);
+            Object.assign(mockOrderBook, {trades: {query}});
+            const handler = {reply: jest.fn()};
+
+            // @ts-ignore - accessing private method
+            await p2pService.handleRequest('rid', 'key', {
+                clientId: 'dashboard',
+                action: ServiceAction.QUERY_TRADES,
+                data: {symbol, clientId: 'test-client', limit: 1}
+            }, handler);
+
+            expect(query).toHaveBeenCalledWith(expect.objectContaining({clientId: 'test-client', limit: 1}));
+            expect(handler.reply).toHaveBeenCalledWith(null, {
+                status: 'success',
+                trades: expect.objectContaining({symbol, ...page})
+            });
+        });
+
+        test('should answer candle queries for an interval', async () => {
+            p2pService = new P2PService(mockOptions, markets, true);
+            const candles = [{openTime: 0, open: 100, high: 100, low: 100, close: 100, volume: 5, tradeCount: 1}];
+            const query = jest.fn().mockReturnValue(candles);
+            Object.assign(mockOrderBook, {candles: {query}});
+            const handler = {reply: jest.fn()};
+
+            // @ts-ignore - accessing private method
+            await p2pService.handleRequest('rid', 'key', {
+                clientId: 'dashboard',
+                action: ServiceAction.GET_CANDLES,
+                data: {symbol, interval: '5m', from: 0, limit: 10}
+            }, handler);
+
+            expect(query).toHaveBeenCalledWith('5m', {from: 0, to: undefined, limit: 10});
+            expect(handler.reply).toHaveBeenCalledWith(null, {
+                status: 'success',
+                candles: expect.objectContaining({symbol, interval: '5m', candles})
+            });
+        });
+
+        test('should start an auction locally and on the peers', async () => {
+            p2pService = new P2PService(mockOptions, markets, false);
+            // @ts-ignore - private property mock
+            p2pService.peer = Object.create(PeerRPCClient.prototype);
+            // @ts-ignore - private method mock
+            p2pService.requestWithTimeout = jest.fn().mockResolvedValue({status: 'success'});
+
+            await p2pService.startAuction(symbol);
+
+            expect(mockOrderBook.startAuction).toHaveBeenCalled();
+            // @ts-ignore - accessing private method
+            expect(p2pService.requestWithTimeout).toHaveBeenCalledWith(
+                expect.objectContaining({action: ServiceAction.START_AUCTION, data: {symbol}})
+            );
+        });
+
+        test('should halt a market locally and on the peers until the halt ends', async () => {
+            p2pService = new P2PService(mockOptions, markets, false);
+            // @ts-ignore - private property mock
+            p2pService.peer = Object.create(PeerRPCClient.prototype);
+            // @ts-ignore - private method mock
+            p2pService.requestWithTimeout = jest.fn().mockResolvedValue({status: 'success'});
+            jest.spyOn(Date, 'now').mockReturnValue(1000);
+
+            await p2pService.haltMarket(symbol, 5000);
+
+            expect(mockOrderBook.halt).toHaveBeenCalledWith(6000);
+            // @ts-ignore - accessing private method
+            expect(p2pService.requestWithTimeout).toHaveBeenCalledWith(
+                expect.objectContaining({action: ServiceAction.HALT_MARKET, data: {symbol, until: 6000}})
+            );
+            jest.restoreAllMocks();
+        });
+
+        test('should resume markets whose halt has ended and tell the peers', async () => {
+            p2pService = new P2PService(mockOptions, markets, false);
+            // @ts-ignore - private property mock
+            p2pService.peer = Object.create(PeerRPCClient.prototype);
+            // @ts-ignore - private method mock
+            p2pService.requestWithTimeout = jest.fn().mockResolvedValue({status: 'success'});
+            mockOrderBook.getPhase.mockReturnValue(TradingPhase.HALTED);
+            mockOrderBook.getHaltedUntil.mockReturnValue(6000);
+            mockOrderBook.resume.mockReturnValue({matches: [], groupCancellations: [], triggered: []});
+
+            // @ts-ignore - accessing private method
+            expect(await p2pService.resumeElapsedHalts(5999)).toEqual([]);
+            // @ts-ignore - accessing private method
+            expect(await p2pService.resumeElapsedHalts(6000)).toEqual([symbol]);
+
+            expect(mockOrderBook.resume).toHaveBeenCalledTimes(1);
+            // @ts-ignore - accessing private method
+            expect(p2pService.requestWithTimeout).toHaveBeenCalledWith(
+                expect.objectContaining({action: ServiceAction.RESUME_MARKET, data: {symbol}})
+            );
+        });
+
+        test('should deposit funds locally and on the peers', async () => {
+            markets = new MarketRegistry([], {accounts: true});
+            markets.addMarket(symbol, mockOrderBook);
+            p2pService = new P2PService({...mockOptions, adminClientIds: ['test-client']}, markets, false);
+            // @ts-ignore - private property mock
+            p2pService.peer = Object.create(PeerRPCClient.prototype);
+            // @ts-ignore - private method mock
+            p2pService.requestWithTimeout = jest.fn().mockResolvedValue({status: 'success'});
+
+            const balance = await p2pService.deposit('trader', 'USD', 1000);
+
+            expect(balance).toEqual({available: 1000, reserved: 0});
+            expect(p2pService.getBalances('trader')).toEqual({USD: {available: 1000, reserved: 0}});
+            // @ts-ignore - accessing private method
+            expect(p2pService.requestWithTimeout).toHaveBeenCalledWith(expect.objectContaining({
+                action: ServiceAction.DEPOSIT,
+                data: {clientId: 'trader', asset: 'USD', amount: 1000}
+            }));
+            // @ts-ignore - accessing private method
+            expect(p2pService.getReplicationState(symbol).accounts).toEqual(markets.ledger!.getState());
+        });
+
+        test('should not move funds on a node that is not an admin', async () => {
+            markets = new MarketRegistry([], {accounts: true});
+            markets.addMarket(symbol, mockOrderBook);
+            p2pService = new P2PService({...mockOptions, adminClientIds: ['admin']}, markets, false);
+
+            await expect(p2pService.deposit('trader', 'USD', 1000)).rejects.toMatchObject({code: 'NOT_AUTHORIZED'});
+            expect(p2pService.getBalances('trader')).toEqual({});
+        });
+
+        test('should undo a transfer that a peer rejects', async () => {
+            markets = new MarketRegistry([], {accounts: true});
+            markets.addMarket(symbol, mockOrderBook);
+            p2pService = new P2PService({...mockOptions, adminClientIds: ['test-client']}, markets, false);
+            // @ts-ignore - private property mock
+            p2pService.peer = Object.create(PeerRPCClient.prototype);
+            // @ts-ignore - private method mock
+            p2pService.requestWithTimeout = jest.fn().mockResolvedValue({status: 'rejected', code: 'NOT_AUTHORIZED', reason: 'no'});
+
+            await expect(p2pService.deposit('trader', 'USD', 1000)).rejects.toMatchObject({code: 'REJECTED_BY_PEER'});
+            expect(markets.ledger!.getBalance('trader', 'USD').available).toBe(0);
+        });
+
+        test('should only accept transfers from admin nodes', async () => {
+            markets = new MarketRegistry([], {accounts: true});
+            markets.addMarket(symbol, mockOrderBook);
+            p2pService = new P2PService({...mockOptions, adminClientIds: ['admin']}, markets, true);
+            const handler = {reply: jest.fn()};
+            const transfer = (clientId: string) => ({
+                clientId,
+                action: ServiceAction.DEPOSIT,
+                data: {clientId: 'trader', asset: 'USD', amount: 500}
+            });
+
+            // @ts-ignore - accessing private method
+            await p2pService.handleRequest('rid', 'key', transfer('trader'), handler);
+            // @ts-ignore - accessing private method
+            await p2pService.handleRequest('rid', 'key', transfer('admin'), handler);
+
+            expect(handler.reply).toHaveBeenNthCalledWith(1, null, expect.objectContaining({status: 'rejected', code: 'NOT_AUTHORIZED'}));
+            expect(handler.reply).toHaveBeenNthCalledWith(2, null, {status: 'success', balances: {USD: {available: 500, reserved: 0}}});
+            expect(markets.ledger!.getBalance('trader', 'USD').available).toBe(500);
+        });
+
+        test('should mass cancel a client\'s orders locally and on the peers', async () => {
+            p2pService = new P2PService(mockOptions, markets, false);
+            mockOrderBook.cancelClientOrders.mockReturnValue([mockBuyOrder]);
+            // @ts-ignore - private property mock
+            p2pService.peer = Object.create(PeerRPCClient.prototype);
+            // @ts-ignore - private method mock
+            p2pService.requestWithTimeout = jest.fn().mockResolvedValue({status: 'success'});
+
+            const canceled = await p2pService.massCancel('test-client', {side: OrderType.BUY});
+
+            expect(canceled).toEqual([mockBuyOrder]);
+            expect(mockOrderBook.cancelClientOrders).toHaveBeenCalledWith('test-client', OrderType.BUY, CancelReason.REQUESTED);
+            // @ts-ignore - accessing private method
+            expect(p2pService.requestWithTimeout).toHaveBeenCalledWith(expect.objectContaining({
+                action: ServiceAction.MASS_CANCEL,
+                data: {clientId: 'test-client', symbol: undefined, side: OrderType.BUY}
+            }));
+        });
+
+        test('should cancel the orders of clients whose heartbeats stop', async () => {
+            p2pService = new P2PService({...mockOptions, disconnectTimeoutMs: 5000}, markets, true);
+            mockOrderBook.cancelClientOrders.mockReturnValue([mockBuyOrder]);
+            const handler = {reply: jest.fn()};
+            jest.spyOn(Date, 'now').mockReturnValue(1000);
+
+            // @ts-ignore - accessing private method
+            await p2pService.handleRequest('rid', 'key', {clientId: 'bot', action: ServiceAction.HEARTBEAT, data: {}}, handler, {subject: {CN: 'bot'}});
+            jest.restoreAllMocks();
+
+            // @ts-ignore - accessing private method
+            expect(await p2pService.cancelSilentClients(6000)).toEqual([]);
+            // @ts-ignore - accessing private method
+            expect(await p2pService.cancelSilentClients(6001)).toEqual([mockBuyOrder]);
+            // @ts-ignore - accessing private method
+            expect(await p2pService.cancelSilentClients(20000)).toEqual([]);
+
+            expect(handler.reply).toHaveBeenCalledWith(null, {status: 'success'});
+            expect(mockOrderBook.cancelClientOrders).toHaveBeenCalledTimes(1);
+            expect(mockOrderBook.cancelClientOrders).toHaveBeenCalledWith('bot', undefined, CancelReason.DISCONNECTED);
+        });
+
+        test('should count a heartbeat for the certificate it came with, not the client ID it names', async () => {
+            p2pService = new P2PService({...mockOptions, disconnectTimeoutMs: 5000}, markets, true);
+            mockOrderBook.cancelClientOrders.mockReturnValue([]);
+            const handler = {reply: jest.fn()};
+            const heartbeat = {clientId: 'victim', action: ServiceAction.HEARTBEAT, data: {}};
+            jest.spyOn(Date, 'now').mockReturnValue(1000);
+
+            // @ts-ignore - accessing private method
+            await p2pService.handleRequest('rid', 'key', heartbeat, handler);
+            // @ts-ignore - accessing private method
+            await p2pService.handleRequest('rid', 'key', heartbeat, handler, {subject: {CN: 'mallory'}});
+            jest.restoreAllMocks();
+
+            // @ts-ignore - accessing private method
+            await p2pService.cancelSilentClients(6001);
+
+            expect(handler.reply).toHaveBeenNthCalledWith(1, null, expect.objectContaining({status: 'rejected', code: 'NOT_AUTHENTICATED'}));
+            expect(handler.reply).toHaveBeenNthCalledWith(2, null, {status: 'success'});
+            expect(mockOrderBook.cancelClientOrders).toHaveBeenCalledTimes(1);
+            expect(mockOrderBook.cancelClientOrders).toHaveBeenCalledWith('mallory', undefined, CancelReason.DISCONNECTED);
+        });
+
+        test('should broadcast the orders it cancels for a silent client', async () => {
+            p2pService = new P2PService({...mockOptions, disconnectTimeoutMs: 5000}, markets, true);
+            mockOrderBook.cancelClientOrders.mockReturnValue([mockBuyOrder]);
+            // @ts-ignore - private property mock
+            p2pService.serverClient = Object.create(PeerRPCClient.prototype);
+            // @ts-ignore - private method mock
+            p2pService.requestWithTimeout = jest.fn().mockResolvedValue({status: 'success'});
+            // @ts-ignore - private property mock
+            p2pService.lastHeartbeats.set('bot', 1000);
+
+            // @ts-ignore - accessing private method
+            expect(await p2pService.cancelSilentClients(6001)).toEqual([mockBuyOrder]);
+
+            // @ts-ignore - accessing private method
+            expect(p2pService.requestWithTimeout).toHaveBeenCalledWith({
+                action: ServiceAction.CANCEL_ORDER,
+                data: {symbol: mockBuyOrder.symbol, orderId: mockBuyOrder.id},
+                clientId: mockOptions.clientId
+            });
+        });
+
+        test('should audit the books for admin nodes and log what is wrong', async () => {
+            p2pService = new P2PService({...mockOptions, adminClientIds: ['admin']}, markets, true);
+            const violation = {check: AuditCheck.CROSSED_BOOK, message: 'Best bid 101 is at or above best ask 100'};
+            mockOrderBook.audit.mockReturnValue({symbol, sequence: 7, violations: [violation]});
+            const handler = {reply: jest.fn()};
+            const audit = (clientId: string) => ({clientId, action: ServiceAction.AUDIT_BOOK, data: {symbol}});
+
+            // @ts-ignore - accessing private method
+            await p2pService.handleRequest('rid', 'key', audit('trader'), handler);
+            // @ts-ignore - accessing private method
+            await p2pService.handleRequest('rid', 'key', audit('admin'), handler);
+
+            expect(handler.reply).toHaveBeenNthCalledWith(1, null, expect.objectContaining({status: 'rejected', code: 'NOT_AUTHORIZED'}));
+            expect(handler.reply).toHaveBeenNthCalledWith(2, null, {
+                status: 'success',
+                audit: [{symbol, sequence: 7, violations: [violation]}]
+            });
+            // @ts-ignore - accessing private property
+            expect(p2pService.logger.error).toHaveBeenCalledWith(
+                `Order book ${symbol} breaks 1 invariants`,
+                violation.message,
+                expect.objectContaining({symbol, sequence: 7})
+            );
+        });
+
+        test('should send heartbeats to every server', async () => {
+            const servers = [1, 2].map(i => new P2PService({...mockOptions, clientId: `server-${i}`, disconnectTimeoutMs: 5000}, markets, true));
+            p2pService = new P2PService(mockOptions, markets, false);
+            const peer = Object.create(PeerRPCClient.prototype);
+            peer.map = jest.fn((key: string, payload: unknown, _options: unknown, callback: (err: Error | null, data?: unknown[]) => void) => {
+                void Promise.all(servers.map(server => new Promise(resolve => {
+                    // @ts-ignore - accessing private method
+                    void server.handleRequest('rid', key, payload, {reply: (err: Error | null, data: unknown) => resolve(data)}, {subject: {CN: mockOptions.clientId}});
+                }))).then(responses => callback(null, responses));
+            });
+            // @ts-ignore - private property mock
+            p2pService.peer = peer;
+            mockOrderBook.cancelClientOrders.mockReturnValue([mockBuyOrder]);
+            jest.spyOn(Date, 'now').mockReturnValue(1000);
+
+            // @ts-ignore - accessing private method
+            await p2pService.sendHeartbeat();
+            jest.restoreAllMocks();
+
+            for (const server of servers) {
+                // @ts-ignore - accessing private method
+                expect(await server.cancelSilentClients(6000)).toEqual([]);
+                // @ts-ignore - accessing private method
+                expect(await server.cancelSilentClients(6001)).toEqual([mockBuyOrder]);
+            }
+            expect(peer.map).toHaveBeenCalledTimes(1);
+        });
+
+        test('should apply a pushed snapshot in full and audit it', async () => {
+            p2pService = new P2PService(mockOptions, markets, true);
+            mockOrderBook.audit.mockReturnValue({symbol, sequence: 1, violations: []});
+            const handler = {reply: jest.fn()};
+            const state = {
+                buyOrders: [],
+                sellOrders: [],
+                lastTradePrice: 100,
+                closedGroupIds: ['oco-1'],
+                phase: TradingPhase.HALTED,
+                haltedUntil: 5000,
+                matches: [{id: 'match-1', price: 100, matchedAmount: 5, timestamp: 1000}, {id: 'match-2'}]
+            };
+
+            // @ts-ignore - accessing private method
+            await p2pService.handleRequest('rid', 'key', {clientId: 'peer', action: ServiceAction.SYNC_ORDERBOOK, data: {symbol, state}}, handler);
+
+            expect(mockOrderBook.setState).toHaveBeenCalledWith(expect.objectContaining({
+                lastTradePrice: 100,
+                closedGroupIds: ['oco-1'],
+                phase: TradingPhase.HALTED,
+                haltedUntil: 5000
+            }));
+            expect(mockOrderBook.audit).toHaveBeenCalled();
+            expect(mockOrderBook.candles.add).toHaveBeenCalledTimes(1);
+            expect(mockOrderBook.candles.add).toHaveBeenCalledWith(state.matches[0]);
+            expect(handler.reply).toHaveBeenCalledWith(null, {status: 'success'});
+        });
+
+        test('should add announced matches to the candles', async () => {
+            p2pService = new P2PService(mockOptions, markets, true);
+            const handler = {reply: jest.fn()};
+            const match = {...mockOrderMatch, symbol, buyOrder: {id: 'buy-1'}, sellOrder: {id: 'sell-1'}};
+
+            // @ts-ignore - accessing private method
+            await p2pService.handleRequest('rid', 'key', {clientId: 'peer', action: ServiceAction.ANNOUNCE_MATCH, data: match}, handler);
+
+            expect(mockOrderBook.candles.add).toHaveBeenCalledWith(match);
+            expect(handler.reply).toHaveBeenCalledWith(null, {status: 'success'});
+        });
+
+        test('should reject orders for markets that are not registered', async () => {
+            p2pService = new P2PService(mockOptions, markets, false);
+            Object.assign(mockSellOrder, {symbol: 'ETH/USD'});
+
+            await expect(p2pService.submitOrder(mockSellOrder)).rejects.toMatchObject({code: 'UNKNOWN_MARKET'});
+            expect(mockOrderBook.addOrder).not.toHaveBeenCalled();
+        });
     });
 });
\ No newline at end of file
@@ -1,7 +1,17 @@
 import {PeerRPCClient, PeerRPCServer} from 'grenache-nodejs-http';
 import Link from 'grenache-nodejs-link';
-import {Order} from '../models/Order';
-import {OrderBook, OrderMatch, OrderSubmissionResult} from '../models/OrderBook';
+import {PeerCertificate} from 'tls';
+import {DEFAULT_SYMBOL, Order, OrderAmendment, OrderError, OrderType} from '../models/Order';
+import {AuctionResult, OrderBook, OrderBookError, OrderBookState, OrderSubmissionResult} from '../models/OrderBook';
+import {MarketRegistry} from '../models/MarketRegistry';
+import {MarketRuleError, validateAmendment, validateOrder} from '../models/MarketRules';
+import {TradeHistoryError, TradeQuery} from '../models/TradeHistory';
+import {CandleAggregator, CandleError, CandleInterval, CandleQuery} from '../models/CandleAggregator';
+import {TradingPhase} from '../models/Auction';
+import {CancelReason} from '../models/OrderBookEvents';
+import {AuditReport} from '../models/BookAuditor';
+import {AccountLedger, AccountLedgerError, Balance} from '../models/AccountLedger';
+import {FeeEngine} from '../models/FeeEngine';
 import {LoggerService, LogLevel} from './LoggerService';
 import {Mutex} from 'async-mutex';
 
@@ -11,18 +21,61 @@ export enum ServiceAction {
     GET_ORDERBOOK = 'getOrderbook',
     ANNOUNCE_MATCH = 'announceMatch',
     CANCEL_ORDER = 'cancelOrder',
+    EXPIRE_ORDER = 'expireOrder',
+    AMEND_ORDER = 'amendOrder',
+    CANCEL_GROUP = 'cancelGroup',
+    GET_DEPTH = 'getDepth',
+    QUERY_TRADES = 'queryTrades',
+    GET_CANDLES = 'getCandles',
+    START_AUCTION = 'startAuction',
+    UNCROSS_AUCTION = 'uncrossAuction',
+    GET_AUCTION = 'getAuction',
+    HALT_MARKET = 'haltMarket',
+    RESUME_MARKET = 'resumeMarket',
+    DEPOSIT = 'deposit',
+    WITHDRAW = 'withdraw',
+    GET_BALANCES = 'getBalances',
+    MASS_CANCEL = 'massCancel',
+    HEARTBEAT = 'heartbeat',
+    AUDIT_BOOK = 'auditBook',
+}
+
+/**
+ * Book snapshot as it travels between nodes, before its orders are parsed
+ */
+interface ReplicatedState {
+    pricePrecision?: number;
+    amountPrecision?: number;
+    buyOrders: unknown[];
+    sellOrders: unknown[];
+    matches?: unknown[];
+    stopOrders?: unknown[];
+    lastTradePrice?: number;
+    closedGroupIds?: unknown[];
+    phase?: string;
+    haltedUntil?: number;
+    accounts?: unknown;
+    feeVolumes?: unknown;
+    circuitBreakerTrades?: unknown;
+    bookTime?: number;
 }
 
 interface RPCResponse {
     status: string;
-    state?: {
-        buyOrders: unknown[];
-        sellOrders: unknown[];
-        matches: unknown[];
-    };
+    state?: ReplicatedState;
     result?: unknown;
+    depth?: unknown;
+    trades?: unknown;
+    candles?: unknown;
+    auction?: unknown;
+    balances?: unknown;
+    audit?: unknown;
     match?: unknown;
     canceledOrder?: unknown;
+    canceledOrders?: unknown[];
+    expiredOrder?: unknown;
+    /** Set with status 'rejected' when an order breaks a market or order book rule */
+    code?: string;
     reason?: string;
 }
 
@@ -33,7 +86,10 @@ interface RPCHandler {
 interface TransportServer {
     listen: (port: number) => void;
 
-    on(event: 'request', callback: (rid: string, key: string, payload: unknown, handler: RPCHandler) => void): void;
+    on(
+        event: 'request',
+        callback: (rid: string, key: string, payload: unknown, handler: RPCHandler, cert?: PeerCertificate) => void
+    ): void;
 
     unlisten: () => void;
 }
@@ -50,8 +106,43 @@ export interface P2PServiceOptions {
     port: number;
     clientId: string;
     logDir: string;
+    expirySweepIntervalMs?: number;
+    /** Nodes allowed to deposit and withdraw funds; nobody when unset */
+    adminClientIds?: string[];
+    /**
+     * Cancel-on-disconnect for clients: how often to send a heartbeat. Servers cancel every order of a
+     * client that has sent heartbeats and then stays silent for disconnectTimeoutMs.
+     */
+    heartbeatIntervalMs?: number;
+    disconnectTimeoutMs?: number;
+    /** How often every book is checked for broken invariants */
+    auditIntervalMs?: number;
+    /**
+     * Mutual TLS between nodes. Heartbeats are only taken from a caller with a certificate signed by ca,
+     * and count for the client named by its common name, so that must be the node's clientId.
+     */
+    tls?: TlsOptions;
+}
+
+export interface TlsOptions {
+    key: Buffer;
+    cert: Buffer;
+    ca: Buffer;
+}
+
+/**
+ * Orders to cancel for a client; all markets and both sides unless narrowed down
+ */
+export interface MassCancelFilter {
+    symbol?: string;
+    side?: OrderType;
 }
 
+const DEFAULT_EXPIRY_SWEEP_INTERVAL_MS = 1000;
+const STATE_RECENT_TRADES = 50;
+const DEFAULT_DISCONNECT_TIMEOUT_MS = 30000;
+const DEFAULT_AUDIT_INTERVAL_MS = 60000;
+
 export class P2PServiceError extends Error {
     constructor(message: string, public readonly code: string) {
         super(message);
@@ -62,22 +153,41 @@ export class P2PServiceError extends Error {
 export class P2PService {
     private readonly link: Link;
     private peer!: PeerRPCClient | PeerRPCServer;
+    /** Servers send their own changes, such as disconnect cancellations, to the other servers with it */
+    private serverClient: PeerRPCClient | null = null;
     private service: TransportServer | null = null;
-    private readonly orderbook: OrderBook;
+    private readonly markets: MarketRegistry;
     private readonly clientId: string;
     private readonly serviceName: string;
     private readonly port: number;
     private announceInterval: NodeJS.Timeout | null = null;
+    private expiryInterval: NodeJS.Timeout | null = null;
+    private heartbeatInterval: NodeJS.Timeout | null = null;
+    private auditInterval: NodeJS.Timeout | null = null;
+    private readonly expirySweepIntervalMs: number;
+    private readonly heartbeatIntervalMs: number | undefined;
+    private readonly disconnectTimeoutMs: number;
+    private readonly auditIntervalMs: number;
+    /** When each client that sends heartbeats was last heard from */
+    private readonly lastHeartbeats = new Map<string, number>();
+    private readonly adminClientIds: Set<string>;
+    private readonly tls: TlsOptions | undefined;
     private readonly isServer: boolean;
     private readonly logger: LoggerService;
     private orderMutex = new Mutex();
 
-    constructor(options: P2PServiceOptions, orderbook: OrderBook, isServer = false) {
-        this.orderbook = orderbook;
+    constructor(options: P2PServiceOptions, markets: MarketRegistry, isServer = false) {
+        this.markets = markets;
         this.clientId = options.clientId;
         this.serviceName = options.serviceName;
         this.port = options.port;
         this.isServer = isServer;
+        this.expirySweepIntervalMs = options.expirySweepIntervalMs || DEFAULT_EXPIRY_SWEEP_INTERVAL_MS;
+        this.adminClientIds = new Set(options.adminClientIds || []);
+        this.heartbeatIntervalMs = options.heartbeatIntervalMs;
+        this.disconnectTimeoutMs = options.disconnectTimeoutMs || DEFAULT_DISCONNECT_TIMEOUT_MS;
+        this.auditIntervalMs = options.auditIntervalMs || DEFAULT_AUDIT_INTERVAL_MS;
+        this.tls = options.tls;
 
         this.logger = LoggerService.getInstance({
             logDir: options.logDir,
@@ -95,6 +205,7 @@ export class P2PService {
             serviceName: this.serviceName,
             port: this.port,
             isServer: this.isServer,
+            markets: this.markets.getSymbols(),
         });
     }
 
@@ -108,6 +219,38 @@ export class P2PService {
             } else {
                 await this.startClient();
             }
+
+            this.expiryInterval = setInterval(() => {
+                void this.sweepExpiredOrders().catch((err) => {
+                    this.logger.warn('Expiry sweep failed', {
+                        error: (err as Error).message
+                    });
+                });
+                void this.resumeElapsedHalts().catch((err) => {
+                    this.logger.warn('Resuming halted markets failed', {
+                        error: (err as Error).message
+                    });
+                });
+                void this.cancelSilentClients().catch((err) => {
+                    this.logger.warn('Cancel-on-disconnect sweep failed', {
+                        error: (err as Error).message
+                    });
+                });
+            }, this.expirySweepIntervalMs);
+
+            this.auditInterval = setInterval(() => {
+                void this.auditBooks().catch((err) => {
+                    this.logger.warn('Order book audit failed', {
+                        error: (err as Error).message
+                    });
+                });
+            }, this.auditIntervalMs);
+
+            if (!this.isServer && this.heartbeatIntervalMs) {
+                this.heartbeatInterval = setInterval(() => {
+                    void this.sendHeartbeat();
+                }, this.heartbeatIntervalMs);
+            }
         } catch (error) {
             this.logger.error('Failed to start P2P service', error as Error);
             throw new P2PServiceError('Failed to start P2P service', 'START_FAILED');
@@ -119,9 +262,16 @@ export class P2PService {
 
         this.peer = new PeerRPCServer(this.link, {
             timeout: 300000,
+            secure: this.tls && {...this.tls, requestCert: true, rejectUnauthorized: true},
         });
         this.peer.init();
 
+        this.serverClient = new PeerRPCClient(this.link, {
+            timeout: 30000,
+            secure: this.tls,
+        });
+        this.serverClient.init();
+
         const server = this.peer.transport('server') as TransportServer;
         if (!server || typeof server.listen !== 'function') {
             throw new P2PServiceError('Failed to create server transport', 'SERVER_INIT_FAILED');
@@ -132,9 +282,9 @@ export class P2PService {
 
         this.logger.info(`Server listening on port ${this.port}`);
 
-        this.service.on('request', (rid: string, key: string, payload: unknown, handler: RPCHandler) => {
+        this.service.on('request', (rid: string, key: string, payload: unknown, handler: RPCHandler, cert?: PeerCertificate) => {
             this.logger.debug(`Received request: ${key}`);
-            void this.handleRequest(rid, key, payload as RPCPayload, handler);
+            void this.handleRequest(rid, key, payload as RPCPayload, handler, cert);
         });
 
         this.announceInterval = setInterval(() => {
@@ -151,7 +301,8 @@ export class P2PService {
         this.logger.info('Initializing client...');
 
         this.peer = new PeerRPCClient(this.link, {
-            timeout: 30000
+            timeout: 30000,
+            secure: this.tls,
         });
         this.peer.init();
 
@@ -201,6 +352,21 @@ export class P2PService {
             this.announceInterval = null;
         }
 
+        if (this.expiryInterval) {
+            clearInterval(this.expiryInterval);
+            this.expiryInterval = null;
+        }
+
+        if (this.heartbeatInterval) {
+            clearInterval(this.heartbeatInterval);
+            this.heartbeatInterval = null;
+        }
+
+        if (this.auditInterval) {
+            clearInterval(this.auditInterval);
+            this.auditInterval = null;
+        }
+
         if (this.service) {
             try {
                 this.service.unlisten();
@@ -218,25 +384,33 @@ export class P2PService {
         try {
             this.logger.info(`Submitting new order: ${order.id}`, {
                 id: order.id,
+                symbol: order.symbol,
                 type: order.type,
                 price: order.price,
                 amount: order.amount
             });
 
-            const result = this.orderbook.addOrder(order);
+            // Peers replay the order as it was submitted so they run the same matching;
+            // after matching a market order is already cancelled and would be skipped
+            const submittedOrder = order.toJSON();
+            validateOrder(this.markets.getSpec(order.symbol), order);
+            const result = this.markets.getOrderBook(order.symbol).addOrder(order);
 
             const payload = {
                 clientId: this.clientId,
                 action: ServiceAction.SUBMIT_ORDER,
                 data: {
-                    order: order.toJSON()
+                    order: submittedOrder
                 }
             };
 
             this.logger.debug('Broadcasting order to network', {orderId: order.id});
 
             try {
-                await this.requestWithTimeout(payload);
+                const response = await this.requestWithTimeout(payload);
+                if (response.status === 'rejected') {
+                    this.logger.warn(`Order ${order.id} rejected by peer: ${response.reason}`, {orderId: order.id, code: response.code});
+                }
                 this.logger.debug('Order broadcast completed', {orderId: order.id});
             } catch (err) {
                 this.logger.warn('Error broadcasting order, continuing with local result', {
@@ -251,59 +425,594 @@ export class P2PService {
         }
     }
 
-    public async cancelOrder(orderId: string): Promise<Order | undefined> {
-        const canceledOrder = this.orderbook.cancelOrder(orderId);
+    public async cancelOrder(symbol: string, orderId: string): Promise<Order | undefined> {
+        const release = await this.orderMutex.acquire();
+        let canceledOrder: Order | undefined;
+        try {
+            canceledOrder = this.markets.getOrderBook(symbol).cancelOrder(orderId);
+        } finally {
+            release();
+        }
 
         if (canceledOrder && this.peer instanceof PeerRPCClient) {
+            await this.broadcastChange({
+                action: ServiceAction.CANCEL_ORDER,
+                data: {symbol, orderId},
+                clientId: this.clientId,
+            }, 'order cancellation', 'CANCEL_FAILED');
+            this.logger.info('Order cancellation broadcast successful', {symbol, orderId});
+        }
+
+        return canceledOrder;
+    }
+
+    /**
+     * Cancels every order of a one-cancels-other group. Peers cancel the same members, so the group
+     * ID is all that has to be broadcast.
+     */
+    public async cancelGroup(symbol: string, groupId: string): Promise<Order[]> {
+        const release = await this.orderMutex.acquire();
+        let canceledOrders: Order[];
+        try {
+            canceledOrders = this.markets.getOrderBook(symbol).cancelGroup(groupId);
+        } finally {
+            release();
+        }
+
+        if (this.peer instanceof PeerRPCClient) {
+            await this.broadcastChange({
+                action: ServiceAction.CANCEL_GROUP,
+                data: {symbol, groupId},
+                clientId: this.clientId,
+            }, 'order group cancellation', 'CANCEL_FAILED');
+            this.logger.info('Order group cancellation broadcast successful', {symbol, groupId});
+        }
+
+        return canceledOrders;
+    }
+
+    /**
+     * Cancels every open order of a client here and on the peers
+     */
+    public async massCancel(clientId: string, filter: MassCancelFilter = {}): Promise<Order[]> {
+        const release = await this.orderMutex.acquire();
+        let canceledOrders: Order[];
+        try {
+            canceledOrders = this.cancelClientOrders(clientId, filter, CancelReason.REQUESTED);
+            this.logger.info(`Mass cancelled ${canceledOrders.length} orders`, {clientId, ...filter});
+        } finally {
+            release();
+        }
+
+        if (this.peer instanceof PeerRPCClient) {
+            await this.broadcastChange({
+                action: ServiceAction.MASS_CANCEL,
+                data: {clientId, symbol: filter.symbol, side: filter.side},
+                clientId: this.clientId,
+            }, 'mass cancel', 'CANCEL_FAILED');
+            this.logger.info('Mass cancel broadcast successful', {clientId, ...filter});
+        }
+
+        return canceledOrders;
+    }
+
+    /**
+     * Tells the peers about a change already made here. A failed broadcast or a peer rejecting the
+     * change leaves this node out of step with the network, so both throw.
+     */
+    private async broadcastChange(payload: RPCPayload, description: string, code: string): Promise<void> {
+        let response: RPCResponse;
+        try {
+            response = await this.requestWithTimeout(payload);
+        } catch (err) {
+            this.logger.error(`Failed to broadcast ${description}`, err as Error);
+            throw new P2PServiceError(`Failed to broadcast ${description}`, code);
+        }
+
+        if (response.status === 'rejected') {
+            this.logger.error(`Peer rejected ${description}`, response.reason ?? 'no reason given', {code: response.code});
+            throw new P2PServiceError(`Peer rejected ${description} with ${response.code}: ${response.reason}`, 'REJECTED_BY_PEER');
+        }
+    }
+
+    private cancelClientOrders(clientId: string, filter: MassCancelFilter, reason: CancelReason): Order[] {
+        if (filter.side !== undefined && !Object.values(OrderType).includes(filter.side)) {
+            throw new P2PServiceError(`Invalid side: ${filter.side}`, 'INVALID_SIDE');
+        }
+
+        const symbols = filter.symbol === undefined ? this.markets.getSymbols() : [filter.symbol];
+        return symbols.flatMap(symbol => this.markets.getOrderBook(symbol).cancelClientOrders(clientId, filter.side, reason));
+    }
+
+    /**
+     * Every server keeps its own clock of a client's heartbeats, so they go to all servers, not to one
+     */
+    private async sendHeartbeat(): Promise<void> {
+        try {
+            const responses = await this.mapWithTimeout({action: ServiceAction.HEARTBEAT, data: {}, clientId: this.clientId});
+            for (const response of responses.filter(response => response.status === 'rejected')) {
+                this.logger.warn('Heartbeat rejected', {code: response.code, reason: response.reason});
+            }
+        } catch (err) {
+            this.logger.warn('Failed to send heartbeat', {error: (err as Error).message});
+        }
+    }
+
+    /**
+     * Cancels the orders of clients whose heartbeats stopped and tells the peers like any other
+     * cancellation. A client is forgotten once its orders are cancelled and enrolled again by its next heartbeat.
+     */
+    private async cancelSilentClients(now: number = Date.now()): Promise<Order[]> {
+        const silentClients = [...this.lastHeartbeats]
+            .filter(([, lastHeartbeat]) => now - lastHeartbeat > this.disconnectTimeoutMs)
+            .map(([clientId]) => clientId);
+        if (silentClients.length === 0) {
+            return [];
+        }
+
+        const release = await this.orderMutex.acquire();
+        const canceledOrders: Order[] = [];
+        try {
+            for (const clientId of silentClients) {
+                this.lastHeartbeats.delete(clientId);
+                const orders = this.cancelClientOrders(clientId, {}, CancelReason.DISCONNECTED);
+                this.logger.warn(`Client ${clientId} went silent, cancelled ${orders.length} orders`, {clientId});
+                canceledOrders.push(...orders);
+            }
+        } finally {
+            release();
+        }
+
+        for (const order of canceledOrders) {
             try {
-                const payload: RPCPayload = {
+                await this.broadcastChange({
                     action: ServiceAction.CANCEL_ORDER,
-                    data: {orderId},
+                    data: {symbol: order.symbol, orderId: order.id},
                     clientId: this.clientId,
-                };
+                }, 'order cancellation', 'CANCEL_FAILED');
+            } catch (err) {
+                this.logger.warn('Failed to broadcast disconnect cancellation', {
+                    error: (err as Error).message,
+                    orderId: order.id
+                });
+            }
+        }
+
+        return canceledOrders;
+    }
+
+    /**
+     * Checks the invariants of one market's book, or of every book, and logs what is broken
+     */
+    public async auditBooks(symbol?: string): Promise<AuditReport[]> {
+        const release = await this.orderMutex.acquire();
+        let reports: AuditReport[];
+        try {
+            const symbols = symbol === undefined ? this.markets.getSymbols() : [symbol];
+            reports = symbols.map(target => this.markets.getOrderBook(target).audit());
+        } finally {
+            release();
+        }
+
+        reports.forEach(report => this.logViolations(report));
+        return reports;
+    }
+
+    private logViolations(report: AuditReport): void {
+        if (report.violations.length === 0) {
+            return;
+        }
+
+        this.logger.error(
+            `Order book ${report.symbol} breaks ${report.violations.length} invariants`,
+            report.violations.map(violation => violation.message).join('; '),
+            {symbol: report.symbol, sequence: report.sequence, violations: report.violations}
+        );
+    }
+
+    /**
+     * Credits a client's account here and on the peers
+     */
+    public async deposit(clientId: string, asset: string, amount: number): Promise<Balance> {
+        return this.transfer(ServiceAction.DEPOSIT, clientId, asset, amount);
+    }
+
+    /**
+     * Debits a client's available balance here and on the peers; reserved funds cannot be withdrawn
+     */
+    public async withdraw(clientId: string, asset: string, amount: number): Promise<Balance> {
+        return this.transfer(ServiceAction.WITHDRAW, clientId, asset, amount);
+    }
+
+    public getBalances(clientId: string): Record<string, Balance> {
+        return this.getLedger().getBalances(clientId);
+    }
+
+    private async transfer(
+        action: ServiceAction.DEPOSIT | ServiceAction.WITHDRAW,
+        clientId: string,
+        asset: string,
+        amount: number,
+    ): Promise<Balance> {
+        // Peers only take transfers from admin nodes, so no other node may make one here either
+        if (!this.adminClientIds.has(this.clientId)) {
+            throw new AccountLedgerError(`${this.clientId} may not move funds`, 'NOT_AUTHORIZED');
+        }
+
+        // Held until the peers answer, so a rejected transfer can be undone before anything spends it
+        const release = await this.orderMutex.acquire();
+        try {
+            const ledger = this.getLedger();
+            const balance = action === ServiceAction.DEPOSIT
+                ? ledger.deposit(clientId, asset, amount)
+                : ledger.withdraw(clientId, asset, amount);
+            this.logger.info(`Processed ${action}`, {clientId, asset, amount});
+
+            if (this.peer instanceof PeerRPCClient) {
+                try {
+                    await this.broadcastChange({action, data: {clientId, asset, amount}, clientId: this.clientId}, 'transfer', 'TRANSFER_FAILED');
+                } catch (err) {
+                    if ((err as P2PServiceError).code === 'REJECTED_BY_PEER') {
+                        // The peer did not make it, so it is undone here too
+                        if (action === ServiceAction.DEPOSIT) {
+                            ledger.withdraw(clientId, asset, amount);
+                        } else {
+                            ledger.deposit(clientId, asset, amount);
+                        }
+                    }
+                    throw err;
+                }
+                this.logger.info('Transfer broadcast successful', {action, clientId});
+            }
+
+            return balance;
+        } finally {
+            release();
+        }
+    }
+
+    /**
+     * The one ledger every market of this node settles against
+     */
+    private getLedger(): AccountLedger {
+        const ledger = this.markets.ledger;
+        if (!ledger) {
+            throw new AccountLedgerError('Balances are not kept on this network', 'ACCOUNTS_DISABLED');
+        }
+        return ledger;
+    }
+
+    /**
+     * Puts a market into its auction phase here and on the peers
+     */
+    public async startAuction(symbol: string): Promise<void> {
+        const release = await this.orderMutex.acquire();
+        try {
+            this.markets.getOrderBook(symbol).startAuction();
+            this.logger.info('Auction started', {symbol});
+        } finally {
+            release();
+        }
+
+        await this.broadcastAuctionAction(ServiceAction.START_AUCTION, symbol);
+    }
+
+    /**
+     * Ends a market's auction at its uncrossing price. Peers uncross their own copy of the book, which
+     * holds the same orders and so arrives at the same price.
+     */
+    public async uncrossAuction(symbol: string): Promise<AuctionResult> {
+        const release = await this.orderMutex.acquire();
+        let result: AuctionResult;
+        try {
+            result = this.markets.getOrderBook(symbol).uncross();
+            this.logger.info('Auction uncrossed', {symbol, price: result.price, matches: result.matches.length});
+        } finally {
+            release();
+        }
+
+        await this.broadcastAuctionAction(ServiceAction.UNCROSS_AUCTION, symbol);
+        return result;
+    }
+
+    /**
+     * Trading phase of a market and, during an auction, the price and volume it would uncross at now
+     */
+    public getAuction(symbol: string = DEFAULT_SYMBOL) {
+        const orderBook = this.markets.getOrderBook(symbol);
+        const phase = orderBook.getPhase();
+
+        return {
+            symbol,
+            phase,
+            haltedUntil: orderBook.getHaltedUntil(),
+            indicative: phase === TradingPhase.AUCTION ? orderBook.getIndicativeAuction() : undefined
+        };
+    }
+
+    /**
+     * Halts a market here and on the peers, for durationMs or until it is resumed
+     */
+    public async haltMarket(symbol: string, durationMs?: number): Promise<void> {
+        const until = durationMs === undefined ? undefined : Date.now() + durationMs;
+        const release = await this.orderMutex.acquire();
+        try {
+            this.markets.getOrderBook(symbol).halt(until);
+            this.logger.info('Market halted', {symbol, until});
+        } finally {
+            release();
+        }
+
+        await this.broadcastHaltAction(ServiceAction.HALT_MARKET, symbol, until);
+    }
+
+    /**
+     * Lifts a halt here and on the peers through a reopening auction
+     */
+    public async resumeMarket(symbol: string): Promise<AuctionResult> {
+        const release = await this.orderMutex.acquire();
+        let result: AuctionResult;
+        try {
+            result = this.markets.getOrderBook(symbol).resume();
+            this.logger.info('Market resumed', {symbol, price: result.price, matches: result.matches.length});
+        } finally {
+            release();
+        }
+
+        await this.broadcastHaltAction(ServiceAction.RESUME_MARKET, symbol);
+        return result;
+    }
+
+    /**
+     * Resumes markets whose halt has run its course, including halts tripped by a circuit breaker
+     */
+    private async resumeElapsedHalts(now: number = Date.now()): Promise<string[]> {
+        const release = await this.orderMutex.acquire();
+        const resumed: string[] = [];
+        try {
+            for (const symbol of this.markets.getSymbols()) {
+                const orderBook = this.markets.getOrderBook(symbol);
+                const haltedUntil = orderBook.getHaltedUntil();
+                if (orderBook.getPhase() === TradingPhase.HALTED && haltedUntil !== undefined && haltedUntil <= now) {
+                    const result = orderBook.resume();
+                    this.logger.info('Market resumed after halt', {symbol, price: result.price, matches: result.matches.length});
+                    resumed.push(symbol);
+                }
+            }
+        } finally {
+            release();
+        }
 
-                await this.requestWithTimeout(payload);
-                this.logger.info('Order cancellation broadcast successful', {orderId});
+        for (const symbol of resumed) {
+            try {
+                await this.broadcastHaltAction(ServiceAction.RESUME_MARKET, symbol);
             } catch (err) {
-                this.logger.error('Failed to broadcast order cancellation', err as Error);
-                throw new P2PServiceError('Failed to broadcast order cancellation', 'CANCEL_FAILED');
+                // Peers resume the market on their own timer as well
+                this.logger.warn('Failed to broadcast market resumption', {error: (err as Error).message, symbol});
+            }
+        }
+
+        return resumed;
+    }
+
+    private async broadcastHaltAction(action: ServiceAction, symbol: string, until?: number): Promise<void> {
+        if (!(this.peer instanceof PeerRPCClient)) {
+            return;
+        }
+
+        try {
+            await this.requestWithTimeout({action, data: {symbol, until}, clientId: this.clientId});
+            this.logger.info('Halt broadcast successful', {action, symbol});
+        } catch (err) {
+            this.logger.error('Failed to broadcast halt', err as Error, {action, symbol});
+            throw new P2PServiceError('Failed to broadcast halt', 'HALT_FAILED');
+        }
+    }
+
+    private async broadcastAuctionAction(action: ServiceAction, symbol: string): Promise<void> {
+        if (!(this.peer instanceof PeerRPCClient)) {
+            return;
+        }
+
+        try {
+            await this.requestWithTimeout({action, data: {symbol}, clientId: this.clientId});
+            this.logger.info('Auction broadcast successful', {action, symbol});
+        } catch (err) {
+            this.logger.error('Failed to broadcast auction', err as Error, {action, symbol});
+            throw new P2PServiceError('Failed to broadcast auction', 'AUCTION_FAILED');
+        }
+    }
+
+    /**
+     * Amends a resting order locally and broadcasts the amendment with the version it applied to,
+     * so peers holding a different version of the order reject it instead of diverging
+     */
+    public async amendOrder(symbol: string, orderId: string, changes: OrderAmendment): Promise<OrderSubmissionResult> {
+        const release = await this.orderMutex.acquire();
+        try {
+            const orderBook = this.markets.getOrderBook(symbol);
+            const order = orderBook.findOrderById(orderId);
+            const expectedVersion = order?.version;
+            const timestamp = Date.now();
+
+            if (order) {
+                validateAmendment(this.markets.getSpec(symbol), order, changes);
+            }
+
+            this.logger.info(`Amending order: ${orderId}`, {symbol, orderId, ...changes});
+
+            const result = orderBook.amendOrder(orderId, changes, timestamp, expectedVersion);
+
+            if (this.peer instanceof PeerRPCClient) {
+                try {
+                    await this.requestWithTimeout({
+                        action: ServiceAction.AMEND_ORDER,
+                        data: {symbol, orderId, changes: {...changes}, timestamp, expectedVersion},
+                        clientId: this.clientId,
+                    });
+                } catch (err) {
+                    this.logger.warn('Error broadcasting order amendment, continuing with local result', {
+                        error: (err as Error).message,
+                        orderId
+                    });
+                }
+            }
+
+            return result;
+        } finally {
+            release();
+        }
+    }
+
+    /**
+     * Expires good-till-date orders across all markets and announces each expiry to the network
+     */
+    private async sweepExpiredOrders(now: number = Date.now()): Promise<Order[]> {
+        const release = await this.orderMutex.acquire();
+        const expiredOrders: Order[] = [];
+        try {
+            for (const symbol of this.markets.getSymbols()) {
+                expiredOrders.push(...this.markets.getOrderBook(symbol).expireOrders(now));
             }
+        } finally {
+            release();
         }
 
-        return canceledOrder;
+        for (const order of expiredOrders) {
+            this.logger.info(`Order ${order.id} expired`, {orderId: order.id, symbol: order.symbol, expiresAt: order.expiresAt});
+
+            if (this.peer instanceof PeerRPCClient) {
+                try {
+                    await this.requestWithTimeout({
+                        action: ServiceAction.EXPIRE_ORDER,
+                        data: {symbol: order.symbol, orderId: order.id},
+                        clientId: this.clientId,
+                    });
+                } catch (err) {
+                    this.logger.warn('Failed to broadcast order expiry', {
+                        error: (err as Error).message,
+                        orderId: order.id
+                    });
+                }
+            }
+        }
+
+        return expiredOrders;
+    }
+
+    /**
+     * Snapshot for consumers: iceberg orders only show their visible slice and stop orders are left out
+     */
+    public getOrderbookState(symbol: string = DEFAULT_SYMBOL) {
+        return this.serializeState(symbol, false);
+    }
+
+    /**
+     * Aggregated top of book for dashboards; far smaller than the full snapshot and free of client IDs
+     */
+    public getDepth(symbol: string = DEFAULT_SYMBOL, levels?: number) {
+        const {pricePrecision, amountPrecision} = this.markets.getSpec(symbol);
+
+        return {
+            symbol,
+            pricePrecision,
+            amountPrecision,
+            ...this.markets.getOrderBook(symbol).getDepth(levels)
+        };
+    }
+
+    /**
+     * Page of the trades this node executed in a market, newest first
+     */
+    public queryTrades(symbol: string = DEFAULT_SYMBOL, query: TradeQuery = {}) {
+        const {pricePrecision, amountPrecision} = this.markets.getSpec(symbol);
+
+        return {
+            symbol,
+            pricePrecision,
+            amountPrecision,
+            ...this.markets.getOrderBook(symbol).trades.query(query)
+        };
+    }
+
+    /**
+     * OHLCV candles of a market, oldest first, with empty intervals filled in
+     */
+    public getCandles(symbol: string, interval: CandleInterval, query: CandleQuery = {}) {
+        const {pricePrecision, amountPrecision} = this.markets.getSpec(symbol);
+
+        return {
+            symbol,
+            interval,
+            pricePrecision,
+            amountPrecision,
+            candles: this.markets.getOrderBook(symbol).candles.query(interval, query)
+        };
+    }
+
+    /**
+     * Full snapshot, hidden iceberg reserves and stop orders included, for peers replicating the book
+     */
+    private getReplicationState(symbol: string) {
+        return this.serializeState(symbol, true);
     }
 
-    public getOrderbookState() {
-        const state = this.orderbook.getState();
+    private serializeState(symbol: string, includeHidden: boolean) {
+        const serializeOrder = (order: Order) => includeHidden ? order.toJSON() : order.toPublicJSON();
+        const orderBook = this.markets.getOrderBook(symbol);
+        const state = orderBook.getState();
+        const {pricePrecision, amountPrecision} = this.markets.getSpec(symbol);
+        const recentTrades = orderBook.trades.query({limit: STATE_RECENT_TRADES}).trades;
 
         return {
-            buyOrders: state.buyOrders.map(order => order.toJSON()),
-            sellOrders: state.sellOrders.map(order => order.toJSON()),
-            matches: state.matches.map(match => ({
-                id: match.id,
-                buyOrder: match.buyOrder.toJSON(),
-                sellOrder: match.sellOrder.toJSON(),
-                matchedAmount: match.matchedAmount,
-                price: match.price,
-                timestamp: match.timestamp
-            }))
+            symbol,
+            pricePrecision,
+            amountPrecision,
+            buyOrders: state.buyOrders.map(serializeOrder),
+            sellOrders: state.sellOrders.map(serializeOrder),
+            // Peers add the latest trades to their candles, which fills in what they missed while away.
+            // Consumers query trades with QUERY_TRADES; older ones still expect the field.
+            matches: includeHidden
+                ? recentTrades.map(({id, price, amount, timestamp}) => ({id, price, matchedAmount: amount, timestamp}))
+                : [],
+            // Snapshots for consumers show the latest trades with the fees charged on both sides
+            recentTrades: includeHidden ? undefined : recentTrades,
+            stopOrders: includeHidden ? (state.stopOrders || []).map(serializeOrder) : undefined,
+            lastTradePrice: state.lastTradePrice,
+            closedGroupIds: includeHidden ? state.closedGroupIds : undefined,
+            // Balances are private to their clients and only travel to peers. They are shared by all markets
+            // and so come with every one of them; the last market synced brings the latest.
+            accounts: includeHidden ? this.markets.ledger?.getState() : undefined,
+            // Client volumes as well, and peers need them to charge the same fee tiers
+            feeVolumes: includeHidden ? state.feeVolumes : undefined,
+            circuitBreakerTrades: includeHidden ? state.circuitBreakerTrades : undefined,
+            bookTime: includeHidden ? state.bookTime : undefined,
+            phase: state.phase,
+            haltedUntil: state.haltedUntil
         };
     }
 
     private async syncOrderbook(): Promise<void> {
+        for (const symbol of this.markets.getSymbols()) {
+            await this.syncMarket(symbol);
+        }
+    }
+
+    private async syncMarket(symbol: string): Promise<void> {
         try {
             if (this.peer instanceof PeerRPCClient) {
-                this.logger.debug('Syncing orderbook from network');
+                this.logger.debug('Syncing orderbook from network', {symbol});
                 const payload: RPCPayload = {
                     clientId: this.clientId,
                     action: ServiceAction.GET_ORDERBOOK,
-                    data: {}
+                    data: {symbol}
                 };
 
                 const response = await this.requestWithTimeout(payload);
 
                 if (response.status !== 'success' || !response.state) {
                     this.logger.warn('Sync response missing state or failed', {
+                        symbol,
                         status: response.status,
                         hasState: !!response.state
                     });
@@ -314,55 +1023,66 @@ export class P2PService {
                     throw new Error('Invalid orderbook state format');
                 }
 
-                const matches = (response.state.matches || []).map(matchData => {
-                    if (typeof matchData !== 'object' || !matchData) {
-                        this.logger.warn('Invalid match data in response');
-                        return null;
-                    }
-
-                    const match = matchData as Record<string, unknown>;
-
-                    if (!match.buyOrder || !match.sellOrder ||
-                        typeof match.buyOrder !== 'object' ||
-                        typeof match.sellOrder !== 'object') {
-                        this.logger.warn('Invalid order data in match');
-                        return null;
-                    }
-
-                    try {
-                        return {
-                            id: match.id as string,
-                            buyOrder: Order.fromObject(match.buyOrder as Record<string, unknown>),
-                            sellOrder: Order.fromObject(match.sellOrder as Record<string, unknown>),
-                            matchedAmount: Number(match.matchedAmount),
-                            price: Number(match.price),
-                            timestamp: Number(match.timestamp)
-                        } as OrderMatch;
-                    } catch (err) {
-                        this.logger.warn('Failed to parse match data', {error: (err as Error).message});
-                        return null;
-                    }
-                }).filter((m): m is OrderMatch => m !== null);
-
-                const state = {
-                    buyOrders: this.safelyMapOrders(response.state.buyOrders),
-                    sellOrders: this.safelyMapOrders(response.state.sellOrders),
-                    matches
-                };
-
-                this.orderbook.setState(state);
+                const state = this.applyState(symbol, response.state);
                 this.logger.info('Orderbook synced successfully', {
+                    symbol,
                     buyOrders: state.buyOrders.length,
-                    sellOrders: state.sellOrders.length,
-                    matches: state.matches.length
+                    sellOrders: state.sellOrders.length
                 });
             }
         } catch (err) {
-            this.logger.error('Sync error', err as Error);
+            this.logger.error('Sync error', err as Error, {symbol});
             throw err;
         }
     }
 
+    /**
+     * Replaces a book with a replication snapshot from a peer, together with the shared balances it
+     * carries, and audits the result
+     */
+    private applyState(symbol: string, rawState: ReplicatedState): OrderBookState {
+        // Prices and amounts travel as integer units, so both sides must agree on their scale
+        const spec = this.markets.getSpec(symbol);
+        if ((rawState.pricePrecision !== undefined && rawState.pricePrecision !== spec.pricePrecision) ||
+            (rawState.amountPrecision !== undefined && rawState.amountPrecision !== spec.amountPrecision)) {
+            throw new Error(`Precision mismatch for market ${symbol}`);
+        }
+
+        const state: OrderBookState = {
+            buyOrders: this.safelyMapOrders(rawState.buyOrders),
+            sellOrders: this.safelyMapOrders(rawState.sellOrders),
+            stopOrders: this.safelyMapOrders(rawState.stopOrders || []),
+            lastTradePrice: this.parseLastTradePrice(rawState.lastTradePrice),
+            closedGroupIds: (rawState.closedGroupIds || []).filter((id): id is string => typeof id === 'string'),
+            phase: this.parsePhase(rawState.phase),
+            haltedUntil: Number.isSafeInteger(rawState.haltedUntil) ? rawState.haltedUntil : undefined,
+            feeVolumes: FeeEngine.isValidState(rawState.feeVolumes) ? rawState.feeVolumes : undefined,
+            circuitBreakerTrades: OrderBook.isValidCircuitBreakerTrades(rawState.circuitBreakerTrades)
+                ? rawState.circuitBreakerTrades
+                : undefined,
+            bookTime: Number.isSafeInteger(rawState.bookTime) ? rawState.bookTime : undefined
+        };
+
+        const orderBook = this.markets.getOrderBook(symbol);
+        orderBook.setState(state);
+        if (this.markets.ledger && AccountLedger.isValidState(rawState.accounts)) {
+            this.markets.ledger.setState(rawState.accounts);
+        }
+        // Trade IDs are the same on every node, so trades this node already counted are skipped
+        (rawState.matches || []).filter(CandleAggregator.isValidTrade).forEach(trade => orderBook.candles.add(trade));
+        // A synced book is only as sound as the peer's, so check it straight away
+        this.logViolations(orderBook.audit());
+        return state;
+    }
+
+    private parsePhase(value: unknown): TradingPhase | undefined {
+        return Object.values(TradingPhase).includes(value as TradingPhase) ? value as TradingPhase : undefined;
+    }
+
+    private parseLastTradePrice(value: unknown): number | undefined {
+        return Number.isSafeInteger(value) && (value as number) > 0 ? value as number : undefined;
+    }
+
     /**
      * Safely maps an array of unknown objects to Order instances
      * Improves error handling for malformed order data
@@ -407,7 +1127,17 @@ export class P2PService {
             .filter((order): order is Order => order !== null);
     }
 
-    private async handleRequest(_rid: string, _key: string, rawPayload: unknown, handler: RPCHandler): Promise<void> {
+    /**
+     * cert is the caller's certificate when nodes talk over mutual TLS; unlike the payload's clientId
+     * the caller cannot choose it
+     */
+    private async handleRequest(
+        _rid: string,
+        _key: string,
+        rawPayload: unknown,
+        handler: RPCHandler,
+        cert?: PeerCertificate
+    ): Promise<void> {
         try {
             if (!rawPayload || typeof rawPayload !== 'object') {
                 this.logger.error('Invalid payload received', new Error('Invalid payload format'), {payload: rawPayload});
@@ -455,18 +1185,26 @@ export class P2PService {
                                 result: {
                                     order: order.toJSON(),
                                     matches: [],
-                                    remainingOrder: null
+                                    remainingOrder: null,
+                                    unfilledAmount: 0,
+                                    selfTradeCancellations: [],
+                                    groupCancellations: [],
+                                    triggered: []
                                 }
                             });
                         }
 
-                        const result = this.orderbook.addOrder(order);
+                        validateOrder(this.markets.getSpec(order.symbol), order);
+                        const result = this.markets.getOrderBook(order.symbol).addOrder(order);
                         this.logger.info(`Order ${order.id} processed from client ${rawPayload.clientId}`, {
                             orderId: order.id,
+                            symbol: order.symbol,
                             clientId: order.clientId,
                             result: {
                                 matches: result.matches.length,
-                                remainingOrder: result.remainingOrder ? 'exists' : 'none'
+                                remainingOrder: result.remainingOrder ? 'exists' : 'none',
+                                unfilledAmount: result.unfilledAmount,
+                                triggered: result.triggered.length
                             }
                         });
 
@@ -476,7 +1214,7 @@ export class P2PService {
                         });
                     } catch (err) {
                         this.logger.error('Failed to process order', err as Error, {action});
-                        handler.reply(err as Error);
+                        this.replyWithError(handler, err as Error);
                     } finally {
                         release();
                     }
@@ -491,20 +1229,17 @@ export class P2PService {
                             throw new Error('Invalid orderbook state data');
                         }
 
-                        const state = data.state as Record<string, unknown>;
+                        const symbol = this.resolveSymbol(data);
+                        const state = data.state;
                         if (this.isValidState(state)) {
                             this.logger.info('Syncing orderbook state from client', {
                                 clientId: rawPayload.clientId,
-                                buyOrders: (state.buyOrders as unknown[]).length,
-                                sellOrders: (state.sellOrders as unknown[]).length,
-                                matches: (state.matches as unknown[]).length
+                                symbol,
+                                buyOrders: state.buyOrders.length,
+                                sellOrders: state.sellOrders.length
                             });
 
-                            this.orderbook.setState({
-                                buyOrders: this.safelyMapOrders(state.buyOrders as unknown[]),
-                                sellOrders: this.safelyMapOrders(state.sellOrders as unknown[]),
-                                matches: state.matches as OrderMatch[]
-                            });
+                            this.applyState(symbol, state);
 
                             handler.reply(null, {status: 'success'});
                         } else {
@@ -522,9 +1257,10 @@ export class P2PService {
 
                 case ServiceAction.GET_ORDERBOOK: {
                     try {
-                        this.logger.debug('Processing get orderbook request', {clientId: rawPayload.clientId});
+                        const symbol = this.resolveSymbol(data);
+                        this.logger.debug('Processing get orderbook request', {clientId: rawPayload.clientId, symbol});
 
-                        const state = this.getOrderbookState();
+                        const state = this.getReplicationState(symbol);
 
                         handler.reply(null, {
                             status: 'success',
@@ -537,6 +1273,232 @@ export class P2PService {
                     break;
                 }
 
+                case ServiceAction.GET_DEPTH: {
+                    try {
+                        const symbol = this.resolveSymbol(data);
+                        const levels = data && data.levels !== undefined ? Number(data.levels) : undefined;
+                        this.logger.debug('Processing get depth request', {clientId: rawPayload.clientId, symbol, levels});
+
+                        handler.reply(null, {
+                            status: 'success',
+                            depth: this.getDepth(symbol, levels)
+                        });
+                    } catch (err) {
+                        this.logger.error('Failed to get depth', err as Error, {action});
+                        this.replyWithError(handler, err as Error);
+                    }
+                    break;
+                }
+
+                case ServiceAction.QUERY_TRADES: {
+                    try {
+                        const symbol = this.resolveSymbol(data);
+                        const query = this.parseTradeQuery(data);
+                        this.logger.debug('Processing trade query', {clientId: rawPayload.clientId, symbol, ...query});
+
+                        handler.reply(null, {
+                            status: 'success',
+                            trades: this.queryTrades(symbol, query)
+                        });
+                    } catch (err) {
+                        this.logger.error('Failed to query trades', err as Error, {action});
+                        this.replyWithError(handler, err as Error);
+                    }
+                    break;
+                }
+
+                case ServiceAction.GET_CANDLES: {
+                    try {
+                        const symbol = this.resolveSymbol(data);
+                        const interval = data.interval as CandleInterval;
+                        const query: CandleQuery = {
+                            from: data.from === undefined ? undefined : Number(data.from),
+                            to: data.to === undefined ? undefined : Number(data.to),
+                            limit: data.limit === undefined ? undefined : Number(data.limit)
+                        };
+                        this.logger.debug('Processing candle query', {clientId: rawPayload.clientId, symbol, interval, ...query});
+
+                        handler.reply(null, {
+                            status: 'success',
+                            candles: this.getCandles(symbol, interval, query)
+                        });
+                    } catch (err) {
+                        this.logger.error('Failed to get candles', err as Error, {action});
+                        this.replyWithError(handler, err as Error);
+                    }
+                    break;
+                }
+
+                case ServiceAction.START_AUCTION:
+                case ServiceAction.UNCROSS_AUCTION: {
+                    const release = await this.orderMutex.acquire();
+                    try {
+                        const symbol = this.resolveSymbol(data);
+                        this.logger.info(`Processing ${action}`, {clientId: rawPayload.clientId, symbol});
+
+                        const orderBook = this.markets.getOrderBook(symbol);
+                        if (action === ServiceAction.START_AUCTION) {
+                            orderBook.startAuction();
+                        } else {
+                            const result = orderBook.uncross();
+                            this.logger.info('Auction uncrossed', {symbol, price: result.price, matches: result.matches.length});
+                        }
+
+                        handler.reply(null, {status: 'success', auction: this.getAuction(symbol)});
+                    } catch (err) {
+                        this.logger.error(`Failed to process ${action}`, err as Error, {action});
+                        this.replyWithError(handler, err as Error);
+                    } finally {
+                        release();
+                    }
+                    break;
+                }
+
+                case ServiceAction.HALT_MARKET:
+                case ServiceAction.RESUME_MARKET: {
+                    const release = await this.orderMutex.acquire();
+                    try {
+                        const symbol = this.resolveSymbol(data);
+                        this.logger.info(`Processing ${action}`, {clientId: rawPayload.clientId, symbol});
+
+                        const orderBook = this.markets.getOrderBook(symbol);
+                        if (action === ServiceAction.HALT_MARKET) {
+                            const until = (data as Record<string, unknown>).until;
+                            orderBook.halt(Number.isSafeInteger(until) ? until as number : undefined);
+                        } else if (orderBook.getPhase() === TradingPhase.HALTED) {
+                            // A node whose own timer already lifted the halt has nothing to do
+                            const result = orderBook.resume();
+                            this.logger.info('Market resumed', {symbol, price: result.price, matches: result.matches.length});
+                        }
+
+                        handler.reply(null, {status: 'success', auction: this.getAuction(symbol)});
+                    } catch (err) {
+                        this.logger.error(`Failed to process ${action}`, err as Error, {action});
+                        this.replyWithError(handler, err as Error);
+                    } finally {
+                        release();
+                    }
+                    break;
+                }
+
+                case ServiceAction.DEPOSIT:
+                case ServiceAction.WITHDRAW: {
+                    const release = await this.orderMutex.acquire();
+                    try {
+                        if (!this.adminClientIds.has(rawPayload.clientId)) {
+                            throw new AccountLedgerError(`${rawPayload.clientId} may not move funds`, 'NOT_AUTHORIZED');
+                        }
+
+                        const {clientId, asset, amount} = (data || {}) as Record<string, unknown>;
+                        if (typeof clientId !== 'string' || typeof asset !== 'string' || typeof amount !== 'number') {
+                            throw new Error('Invalid transfer data');
+                        }
+
+                        const ledger = this.getLedger();
+                        const balance = action === ServiceAction.DEPOSIT
+                            ? ledger.deposit(clientId, asset, amount)
+                            : ledger.withdraw(clientId, asset, amount);
+                        this.logger.info(`Processed ${action}`, {from: rawPayload.clientId, clientId, asset, amount});
+
+                        handler.reply(null, {status: 'success', balances: {[asset]: balance}});
+                    } catch (err) {
+                        this.logger.error(`Failed to process ${action}`, err as Error, {action});
+                        this.replyWithError(handler, err as Error);
+                    } finally {
+                        release();
+                    }
+                    break;
+                }
+
+                case ServiceAction.GET_BALANCES: {
+                    try {
+                        const clientId = (data || {}).clientId;
+                        if (typeof clientId !== 'string') {
+                            throw new Error('Client ID is required');
+                        }
+                        if (clientId !== rawPayload.clientId && !this.adminClientIds.has(rawPayload.clientId)) {
+                            throw new AccountLedgerError(`${rawPayload.clientId} may not see the balances of ${clientId}`, 'NOT_AUTHORIZED');
+                        }
+
+                        handler.reply(null, {status: 'success', balances: this.getBalances(clientId)});
+                    } catch (err) {
+                        this.logger.error('Failed to get balances', err as Error, {action});
+                        this.replyWithError(handler, err as Error);
+                    }
+                    break;
+                }
+
+                case ServiceAction.MASS_CANCEL: {
+                    const release = await this.orderMutex.acquire();
+                    try {
+                        if (!data || typeof data !== 'object' || typeof data.clientId !== 'string') {
+                            throw new Error('Invalid mass cancel data');
+                        }
+
+                        const clientId = data.clientId as string;
+                        if (clientId !== rawPayload.clientId && !this.adminClientIds.has(rawPayload.clientId)) {
+                            throw new P2PServiceError(`${rawPayload.clientId} may not cancel the orders of ${clientId}`, 'NOT_AUTHORIZED');
+                        }
+
+                        const filter: MassCancelFilter = {
+                            symbol: data.symbol === undefined ? undefined : this.resolveSymbol(data),
+                            side: data.side as OrderType | undefined
+                        };
+                        const canceledOrders = this.cancelClientOrders(clientId, filter, CancelReason.REQUESTED);
+                        this.logger.info(`Mass cancelled ${canceledOrders.length} orders`, {from: rawPayload.clientId, clientId, ...filter});
+
+                        handler.reply(null, {status: 'success', canceledOrders});
+                    } catch (err) {
+                        this.logger.error('Failed to mass cancel', err as Error, {action});
+                        this.replyWithError(handler, err as Error);
+                    } finally {
+                        release();
+                    }
+                    break;
+                }
+
+                case ServiceAction.HEARTBEAT: {
+                    try {
+                        const caller = cert?.subject?.CN;
+                        if (typeof caller !== 'string' || caller.length === 0) {
+                            throw new P2PServiceError('Heartbeats need a verified client certificate', 'NOT_AUTHENTICATED');
+                        }
+
+                        this.lastHeartbeats.set(caller, Date.now());
+                        handler.reply(null, {status: 'success'});
+                    } catch (err) {
+                        this.logger.warn('Heartbeat refused', {error: (err as Error).message, clientId: rawPayload.clientId});
+                        this.replyWithError(handler, err as Error);
+                    }
+                    break;
+                }
+
+                case ServiceAction.AUDIT_BOOK: {
+                    try {
+                        if (!this.adminClientIds.has(rawPayload.clientId)) {
+                            throw new P2PServiceError(`${rawPayload.clientId} may not audit the order books`, 'NOT_AUTHORIZED');
+                        }
+
+                        const symbol = typeof data?.symbol === 'string' ? data.symbol : undefined;
+                        handler.reply(null, {status: 'success', audit: await this.auditBooks(symbol)});
+                    } catch (err) {
+                        this.logger.error('Failed to audit order books', err as Error, {action});
+                        this.replyWithError(handler, err as Error);
+                    }
+                    break;
+                }
+
+                case ServiceAction.GET_AUCTION: {
+                    try {
+                        const symbol = this.resolveSymbol(data);
+                        handler.reply(null, {status: 'success', auction: this.getAuction(symbol)});
+                    } catch (err) {
+                        this.logger.error('Failed to get auction', err as Error, {action});
+                        this.replyWithError(handler, err as Error);
+                    }
+                    break;
+                }
+
                 case ServiceAction.ANNOUNCE_MATCH: {
                     // Acquire lock for match processing
                     const release = await this.orderMutex.acquire();
@@ -556,6 +1518,8 @@ export class P2PService {
                             price: data.price,
                             amount: data.matchedAmount
                         });
+                        // Matches carry the same ID on every node, so one this node made itself is not counted twice
+                        this.markets.getOrderBook(this.resolveSymbol(data)).candles.add(data);
 
                         handler.reply(null, {status: 'success'});
                     } catch (err) {
@@ -575,9 +1539,10 @@ export class P2PService {
                         }
 
                         const orderId = data.orderId as string;
-                        this.logger.info(`Processing order cancellation for ${orderId}`, {orderId});
+                        const symbol = this.resolveSymbol(data);
+                        this.logger.info(`Processing order cancellation for ${orderId}`, {orderId, symbol});
 
-                        const canceledOrder = this.orderbook.cancelOrder(orderId);
+                        const canceledOrder = this.markets.getOrderBook(symbol).cancelOrder(orderId);
 
                         handler.reply(null, {
                             status: 'success',
@@ -592,6 +1557,112 @@ export class P2PService {
                     break;
                 }
 
+                case ServiceAction.CANCEL_GROUP: {
+                    const release = await this.orderMutex.acquire();
+                    try {
+                        if (!data || typeof data !== 'object' || typeof data.groupId !== 'string') {
+                            throw new Error('Invalid order group cancellation data');
+                        }
+
+                        const groupId = data.groupId as string;
+                        const symbol = this.resolveSymbol(data);
+                        this.logger.info(`Processing order group cancellation for ${groupId}`, {groupId, symbol});
+
+                        const canceledOrders = this.markets.getOrderBook(symbol).cancelGroup(groupId);
+
+                        handler.reply(null, {
+                            status: 'success',
+                            canceledOrders
+                        });
+                    } catch (err) {
+                        this.logger.error('Failed to cancel order group', err as Error, {action});
+                        handler.reply(err as Error);
+                    } finally {
+                        release();
+                    }
+                    break;
+                }
+
+                case ServiceAction.EXPIRE_ORDER: {
+                    const release = await this.orderMutex.acquire();
+                    try {
+                        if (!data || typeof data !== 'object' || typeof data.orderId !== 'string') {
+                            throw new Error('Invalid order expiry data');
+                        }
+
+                        const orderId = data.orderId as string;
+                        const symbol = this.resolveSymbol(data);
+                        this.logger.info(`Processing order expiry for ${orderId}`, {orderId, symbol});
+
+                        const expiredOrder = this.markets.getOrderBook(symbol).expireOrder(orderId);
+
+                        handler.reply(null, {
+                            status: 'success',
+                            expiredOrder
+                        });
+                    } catch (err) {
+                        this.logger.error('Failed to expire order', err as Error, {action});
+                        handler.reply(err as Error);
+                    } finally {
+                        release();
+                    }
+                    break;
+                }
+
+                case ServiceAction.AMEND_ORDER: {
+                    const release = await this.orderMutex.acquire();
+                    try {
+                        if (!data || typeof data !== 'object' || typeof data.orderId !== 'string' ||
+                            !data.changes || typeof data.changes !== 'object') {
+                            throw new Error('Invalid order amendment data');
+                        }
+
+                        const orderId = data.orderId as string;
+                        const symbol = this.resolveSymbol(data);
+                        const changes = data.changes as Record<string, unknown>;
+                        const timestamp = Number(data.timestamp);
+                        const expectedVersion = typeof data.expectedVersion === 'number' ? data.expectedVersion : undefined;
+
+                        if (!Number.isSafeInteger(timestamp) || timestamp <= 0) {
+                            throw new Error('Invalid order amendment timestamp');
+                        }
+
+                        this.logger.info(`Processing order amendment for ${orderId}`, {orderId, symbol, expectedVersion});
+
+                        const orderBook = this.markets.getOrderBook(symbol);
+                        const amendment: OrderAmendment = {
+                            price: changes.price === undefined ? undefined : Number(changes.price),
+                            amount: changes.amount === undefined ? undefined : Number(changes.amount),
+                        };
+                        const order = orderBook.findOrderById(orderId);
+                        if (order) {
+                            validateAmendment(this.markets.getSpec(symbol), order, amendment);
+                        }
+
+                        const result = orderBook.amendOrder(orderId, amendment, timestamp, expectedVersion);
+                        this.logger.info(`Order ${orderId} amended from client ${rawPayload.clientId}`, {
+                            orderId,
+                            symbol,
+                            result: {
+                                matches: result.matches.length,
+                                remainingOrder: result.remainingOrder ? 'exists' : 'none',
+                                unfilledAmount: result.unfilledAmount,
+                            }
+                        });
+
+                        handler.reply(null, {
+                            status: 'success',
+                            result
+                        });
+                    } catch (err) {
+                        this.logger.error('Failed to amend order', err as Error, {action});
+                        this.replyWithError(handler, err as Error);
+                    } finally {
+                        release();
+                    }
+                    break;
+                }
+
                 default:
                     handler.reply(new Error(`Unknown action: ${action}`));
             }
@@ -601,6 +1672,46 @@ export class P2PService {
         }
     }
 
+    /**
+     * Rule violations are answered with their code so the sender can tell why its order was refused;
+     * anything else is reported as a failed request
+     */
+    private replyWithError(handler: RPCHandler, err: Error): void {
+        if (err instanceof MarketRuleError || err instanceof OrderBookError || err instanceof OrderError ||
+            err instanceof TradeHistoryError || err instanceof CandleError || err instanceof AccountLedgerError ||
+            err instanceof P2PServiceError) {
+            handler.reply(null, {
+                status: 'rejected',
+                code: err.code,
+                reason: err.message
+            });
+            return;
+        }
+
+        handler.reply(err);
+    }
+
+    private parseTradeQuery(data: Record<string, unknown>): TradeQuery {
+        const optionalString = (value: unknown) => typeof value === 'string' ? value : undefined;
+        const optionalNumber = (value: unknown) => value === undefined ? undefined : Number(value);
+
+        return {
+            clientId: optionalString(data.clientId),
+            orderId: optionalString(data.orderId),
+            from: optionalNumber(data.from),
+            to: optionalNumber(data.to),
+            cursor: optionalString(data.cursor),
+            limit: optionalNumber(data.limit)
+        };
+    }
+
+    /**
+     * Picks the market a request targets; peers that predate multi-market support omit it
+     */
+    private resolveSymbol(data: Record<string, unknown>): string {
+        return typeof data.symbol === 'string' ? data.symbol : DEFAULT_SYMBOL;
+    }
+
     private isValidRPCPayload(value: unknown): value is RPCPayload {
         if (!value || typeof value !== 'object') {
             return false;
@@ -627,8 +1738,8 @@ export class P2PService {
     } {
         return (
             typeof data.id === 'string' &&
-            typeof data.matchedAmount === 'number' &&
-            typeof data.price === 'number' &&
+            Number.isSafeInteger(data.matchedAmount) &&
+            Number.isSafeInteger(data.price) &&
             typeof data.timestamp === 'number' &&
             data.buyOrder !== undefined &&
             typeof data.buyOrder === 'object' &&
@@ -637,7 +1748,7 @@ export class P2PService {
         );
     }
 
-    private isValidState(state: unknown): boolean {
+    private isValidState(state: unknown): state is ReplicatedState {
         if (!state || typeof state !== 'object') {
             this.logger.debug('Invalid state: not an object', {state});
             return false;
@@ -646,12 +1757,10 @@ export class P2PService {
         const stateObj = state as Record<string, unknown>;
 
         if (!Array.isArray(stateObj.buyOrders) ||
-            !Array.isArray(stateObj.sellOrders) ||
-            !Array.isArray(stateObj.matches)) {
+            !Array.isArray(stateObj.sellOrders)) {
             this.logger.debug('Invalid state: arrays missing or not arrays', {
                 hasBuyOrders: Array.isArray(stateObj.buyOrders),
-                hasSellOrders: Array.isArray(stateObj.sellOrders),
-                hasMatches: Array.isArray(stateObj.matches)
+                hasSellOrders: Array.isArray(stateObj.sellOrders)
             });
             return false;
         }
@@ -671,21 +1780,6 @@ export class P2PService {
                 }
             }
 
-            for (const match of stateObj.matches) {
-                if (!match || typeof match !== 'object') {
-                    this.logger.debug('Invalid match in state', {match});
-                    return false;
-                }
-
-                const matchObj = match as Record<string, unknown>;
-
-                if (!matchObj.id || !matchObj.buyOrder || !matchObj.sellOrder ||
-                    matchObj.matchedAmount === undefined || matchObj.price === undefined) {
-                    this.logger.debug('Invalid match: missing required fields', {match});
-                    return false;
-                }
-            }
-
             return true;
         } catch (error) {
             this.logger.error('Error validating state', error as Error);
@@ -693,17 +1787,43 @@ export class P2PService {
         }
     }
 
+    /**
+     * Sends a request to every server at once, without retries
+     */
+    private getRPCClient(): PeerRPCClient {
+        const client = this.peer instanceof PeerRPCClient ? this.peer : this.serverClient;
+        if (!client) {
+            throw new Error('P2P client not initialized');
+        }
+        return client;
+    }
+
+    private async mapWithTimeout(payload: RPCPayload, timeout = 10000): Promise<RPCResponse[]> {
+        const client = this.getRPCClient();
+        return new Promise<RPCResponse[]>((resolve, reject) => {
+            const requestTimeout = setTimeout(() => {
+                reject(new Error(`Request timeout after ${timeout}ms`));
+            }, timeout);
+
+            client.map(this.serviceName, payload, {timeout}, (err: Error | null, responses?: unknown[]) => {
+                clearTimeout(requestTimeout);
+
+                if (err) {
+                    reject(err);
+                    return;
+                }
+                resolve((responses || []) as RPCResponse[]);
+            });
+        });
+    }
+
     private async requestWithTimeout(
         payload: RPCPayload,
         timeout = 10000,
         maxRetries = 3,
         retryDelay = 1000,
     ): Promise<RPCResponse> {
-        if (!(this.peer instanceof PeerRPCClient)) {
-            throw new Error('P2P client not initialized');
-        }
-
-        const client = this.peer;
+        const client = this.getRPCClient();
         let lastError: Error | null = null;
         let retryCount = 0;
 
@@ -2,13 +2,22 @@
 declare module 'grenache-nodejs-http' {
     import { Link } from 'grenache-nodejs-link';
     import { EventEmitter } from 'events';
+    import { PeerCertificate, SecureContextOptions } from 'tls';
+
+    /** Serves and requests over https when set; key, cert and ca must be Buffers */
+    export interface SecureOptions extends SecureContextOptions {
+        requestCert?: boolean;
+        rejectUnauthorized?: boolean;
+    }
 
     export interface PeerRPCServerOptions {
         timeout?: number;
+        secure?: SecureOptions;
     }
 
     export interface PeerRPCClientOptions {
         timeout?: number;
+        secure?: SecureOptions;
     }
 
     export interface RequestOptions {
@@ -18,7 +27,11 @@ declare module 'grenache-nodejs-http' {
     export interface TransportServer extends EventEmitter {
         listen(port: number): void;
         unlisten(): void;
-        on(event: 'request', listener: (rid: string, key: string, payload: unknown, handler: ResponseHandler) => void): this;
+        /** cert is the caller's certificate, only set when the server is secure */
+        on(
+            event: 'request',
+            listener: (rid: string, key: string, payload: unknown, handler: ResponseHandler, cert?: PeerCertificate) => void
+        ): this;
     }
 
     export interface ResponseHandler {
@@ -42,5 +55,12 @@ declare module 'grenache-nodejs-http' {
             options: RequestOptions,
             callback: (err: Error | null, data?: unknown) => void
         ): void;
+        /** Sends the request to every peer announcing key; fails if any of them fails */
+        public map(
+            key: string,
+            payload: unknown,
+            options: RequestOptions,
+            callback: (err: Error | null, data?: unknown[]) => void
+        ): void;
     }
 } 
\ No newline at end of file